@@ -10,6 +10,7 @@ import {
     View
 } from 'react-native';
 import { useAuth } from '../../contexts/AuthContext';
+import { recommendationService, RECENT_MOOD_DAYS } from '../../services/recommendationService';
 
 export default function ProfileScreen() {
   const { user, logout } = useAuth();
@@ -20,6 +21,29 @@ export default function ProfileScreen() {
     router.replace('/(tabs)' as Href);
   };
 
+  const handleResetMood = () => {
+    if (!user) return;
+    Alert.alert(
+      'Reset Recent Mood',
+      `Recommendations will ignore your swipes from the last ${RECENT_MOOD_DAYS} days. Your likes and watchlist stay as they are.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Reset',
+          onPress: async () => {
+            try {
+              await recommendationService.resetRecentMood(user.id);
+              Alert.alert('Done', 'Your recommendations will be based on your longer-term taste.');
+            } catch (error) {
+              console.error('Error resetting recent mood:', error);
+              Alert.alert('Error', 'Could not reset your recent mood. Please try again.');
+            }
+          },
+        },
+      ]
+    );
+  };
+
   const handleClearData = () => {
     Alert.alert(
       'Clear All Data',
@@ -72,6 +96,12 @@ export default function ProfileScreen() {
             <Ionicons name="chevron-forward" size={20} color="#ccc" />
           </TouchableOpacity>
 
+          <TouchableOpacity style={styles.menuItem} onPress={handleResetMood}>
+            <Ionicons name="refresh-outline" size={24} color="#666" />
+            <ThemedText style={styles.menuText}>Reset Recent Mood</ThemedText>
+            <Ionicons name="chevron-forward" size={20} color="#ccc" />
+          </TouchableOpacity>
+
           <TouchableOpacity style={styles.menuItem}>
             <Ionicons name="settings-outline" size={24} color="#666" />
             <ThemedText style={styles.menuText}>Settings</ThemedText>
@@ -8,6 +8,7 @@ import RegisterScreen from '../../screens/RegisterScreen';
 import SwipeScreen from '../../screens/SwipeScreen';
 import StreamingServicesScreen from '../../screens/StreamingServices';
 import GenreSelection from '../../screens/GenreSelection';
+import TasteQuiz from '../../screens/TasteQuiz';
 
 export default function HomeScreen() {
   const { user, isLoading } = useAuth();
@@ -32,6 +33,10 @@ export default function HomeScreen() {
 
   const needsGenres = !user.preferences?.genres || user.preferences.genres.length === 0;
   const needsStreamingServices = !user.preferences?.streamingServices || user.preferences.streamingServices.length === 0;
+  // Only new users take the quiz; anyone who has swiped already has something to go on
+  const needsTasteQuiz = !user.preferences?.tasteQuizDone &&
+    (user.preferences?.likedMovies?.length ?? 0) === 0 &&
+    (user.preferences?.dislikedMovies?.length ?? 0) === 0;
 
   if (needsStreamingServices) {
     return <StreamingServicesScreen />;
@@ -41,6 +46,10 @@ export default function HomeScreen() {
     return <GenreSelection />;
   }
 
+  if (needsTasteQuiz) {
+    return <TasteQuiz />;
+  }
+
   return <SwipeScreen />;
 }
 
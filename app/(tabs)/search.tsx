@@ -0,0 +1,6 @@
+import React from 'react';
+import SearchScreen from '../../screens/SearchScreen';
+
+export default function SearchTab() {
+  return <SearchScreen />;
+}
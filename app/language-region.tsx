@@ -0,0 +1,12 @@
+import React from 'react';
+import { Stack } from 'expo-router';
+import LanguageRegion from '@/screens/LanguageRegion';
+
+export default function LanguageRegionRoute() {
+  return (
+    <>
+      <Stack.Screen options={{ title: 'Language & Region' }} />
+      <LanguageRegion />
+    </>
+  );
+}
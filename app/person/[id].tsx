@@ -0,0 +1,17 @@
+import React from 'react';
+import { Stack, useLocalSearchParams } from 'expo-router';
+import PersonScreen from '@/screens/PersonScreen';
+
+// Route entry for a person's profile, e.g. /person/287.
+// Reached from search results and from a title's cast list.
+
+export default function PersonRoute() {
+  const { id, name } = useLocalSearchParams<{ id: string; name?: string }>();
+
+  return (
+    <>
+      <Stack.Screen options={{ title: name ?? '' }} />
+      <PersonScreen personId={Number(id)} />
+    </>
+  );
+}
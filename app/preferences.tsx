@@ -1,6 +1,7 @@
 import { ThemedText } from '@/components/ThemedText';
 import { ThemedView } from '@/components/ThemedView';
-import { ALL_GENRES } from '@/constants/Genres';
+import { DEFAULT_LANGUAGE, SUPPORTED_LANGUAGES, SUPPORTED_REGIONS } from '@/constants/Locales';
+import { DEFAULT_REGION } from '@/constants/StreamingServices';
 import { useAuth } from '@/contexts/AuthContext';
 import { useNavigation, useRouter } from 'expo-router';
 import { useEffect, useMemo, useState } from 'react';
@@ -21,6 +22,10 @@ export default function PreferencesScreen() {
 
   const streamingCount = user?.preferences?.streamingServices?.length || 0;
   const genreCount = user?.preferences?.genres?.length || 0;
+  const languageCode = user?.preferences?.language || DEFAULT_LANGUAGE;
+  const regionCode = user?.preferences?.region || DEFAULT_REGION;
+  const languageLabel = SUPPORTED_LANGUAGES.find(l => l.code === languageCode)?.label ?? languageCode;
+  const regionLabel = SUPPORTED_REGIONS.find(r => r.code === regionCode)?.label ?? regionCode;
 
   return (
     <ThemedView style={styles.container}>
@@ -61,6 +66,36 @@ export default function PreferencesScreen() {
           </View>
           <Ionicons name="chevron-forward" size={20} color="#ccc" />
         </TouchableOpacity>
+
+        <TouchableOpacity 
+          style={styles.menuItem} 
+          onPress={() => router.push('/language-region')}
+        >
+          <View style={styles.menuLeft}>
+            <Ionicons name="language-outline" size={24} color="#007AFF" />
+            <View style={styles.menuTextContainer}>
+              <ThemedText style={styles.menuTitle}>Language & Region</ThemedText>
+              <ThemedText style={styles.menuSubtitle}>
+                {`${languageLabel} · ${regionLabel}`}
+              </ThemedText>
+            </View>
+          </View>
+          <Ionicons name="chevron-forward" size={20} color="#ccc" />
+        </TouchableOpacity>
+
+        <TouchableOpacity 
+          style={styles.menuItem} 
+          onPress={() => router.push('/recommendation-settings')}
+        >
+          <View style={styles.menuLeft}>
+            <Ionicons name="shuffle-outline" size={24} color="#007AFF" />
+            <View style={styles.menuTextContainer}>
+              <ThemedText style={styles.menuTitle}>Recommendations</ThemedText>
+              <ThemedText style={styles.menuSubtitle}>Variety and discovery</ThemedText>
+            </View>
+          </View>
+          <Ionicons name="chevron-forward" size={20} color="#ccc" />
+        </TouchableOpacity>
       </View>
     </ThemedView>
   );
@@ -84,6 +119,34 @@ const styles = StyleSheet.create({
   menuContainer: {
     gap: 12,
   },
+  menuItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: 16,
+    paddingHorizontal: 16,
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+    borderRadius: 14,
+  },
+  menuLeft: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    flex: 1,
+    gap: 16,
+  },
+  menuTextContainer: {
+    flex: 1,
+  },
+  menuTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  menuSubtitle: {
+    fontSize: 13,
+    opacity: 0.7,
+    marginTop: 2,
+  },
 
   // Make genre items look/behave like StreamingServices cards
   chip: {
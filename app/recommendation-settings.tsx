@@ -0,0 +1,12 @@
+import React from 'react';
+import { Stack } from 'expo-router';
+import RecommendationSettings from '@/screens/RecommendationSettings';
+
+export default function RecommendationSettingsRoute() {
+  return (
+    <>
+      <Stack.Screen options={{ title: 'Recommendations' }} />
+      <RecommendationSettings />
+    </>
+  );
+}
@@ -8,6 +8,9 @@
  * - Responsive design for different screen sizes
  * - Genre display and image handling
  * - Like/Dislike buttons with haptic feedback
+ * - Streaming provider logos, highlighting the user's own services
+ * - Inline trailer playback on the back face
+ * - A badge explaining why the title was recommended
  * 
  * @author Flicksy Team
  * @version 1.0.0
@@ -15,6 +18,7 @@
 
 import { Ionicons } from '@expo/vector-icons';
 import { LinearGradient } from 'expo-linear-gradient';
+import { useRouter } from 'expo-router';
 import React, { useEffect, useMemo, useRef } from 'react';
 import {
   Animated,
@@ -30,7 +34,11 @@ import {
 } from 'react-native';
 import { PanGestureHandler, State } from 'react-native-gesture-handler';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
-import { Movie, movieApi, TVShow } from '../services/movieApi';
+import TrailerPlayer from './TrailerPlayer';
+import { DEFAULT_REGION, getServiceForProviderId } from '../constants/StreamingServices';
+import { useAuth } from '../contexts/AuthContext';
+import { Movie, movieApi, MovieDetails, TVShow, TVShowDetails, WatchProvider } from '../services/movieApi';
+import { describeReason, RecommendationExplanation } from '../services/recommendationService';
 
 // Screen dimensions for responsive design
 const { width: screenWidth, height: screenHeight } = Dimensions.get('window');
@@ -41,6 +49,7 @@ const CARD_WIDTH = screenWidth;
  */
 interface MovieCardProps {
   item: Movie | TVShow; // The movie or TV show data to display
+  explanation?: RecommendationExplanation; // Why the title was recommended, if known
   onSwipeLeft: () => void; // Callback when user swipes left (dislike)
   onSwipeRight: () => void; // Callback when user swipes right (like)
   isTopCard: boolean; // Whether this is the top card in the stack
@@ -58,6 +67,7 @@ interface MovieCardProps {
  */
 export default function MovieCard({ 
   item, 
+  explanation,
   onSwipeLeft, 
   onSwipeRight, 
   isTopCard, 
@@ -69,6 +79,8 @@ export default function MovieCard({
   // ==================== HOOKS AND STATE ====================
   
   const insets = useSafeAreaInsets(); // Safe area insets for device-specific spacing
+  const { user } = useAuth(); // Used to highlight the user's streaming services
+  const router = useRouter(); // Cast names on the back face open person pages
   const cardHeight = Math.max(0, screenHeight); // Full screen height for the card
   
   // ==================== RESPONSIVE DESIGN CALCULATIONS ====================
@@ -99,6 +111,9 @@ export default function MovieCard({
   const opacity = useRef(new Animated.Value(1)).current; // Card opacity for fade effects
   const flip = useRef(new Animated.Value(0)).current; // Card flip animation (front/back)
   const [isFlipped, setIsFlipped] = React.useState(false); // Track flip state
+  const [selectedTrailerKey, setSelectedTrailerKey] = React.useState<string | null>(null); // Trailer playing on the back face
+  const [showReasonFactors, setShowReasonFactors] = React.useState(false); // Score breakdown under the reason badge
+  const autoplayTrailerRef = useRef(false); // Start the first trailer once details arrive
 
   // ==================== EFFECTS ====================
   
@@ -238,6 +253,28 @@ export default function MovieCard({
       marginTop: 8,
       marginBottom: 12,
     },
+    providerRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 6,
+      marginTop: 10,
+    },
+    providerLabel: {
+      fontSize: isSmallDevice ? 12 : isLargeDevice ? 16 : 14,
+      color: '#fff',
+      fontWeight: '600',
+      marginRight: 2,
+    },
+    providerLogo: {
+      width: isSmallDevice ? 24 : isLargeDevice ? 32 : 28,
+      height: isSmallDevice ? 24 : isLargeDevice ? 32 : 28,
+      borderRadius: 6,
+      borderWidth: 2,
+      borderColor: 'transparent',
+    },
+    providerLogoOwned: {
+      borderColor: '#4CAF50',
+    },
     genreContainer: {
       flexDirection: 'row',
       alignItems: 'center',
@@ -315,6 +352,58 @@ export default function MovieCard({
     likeButton: {
       backgroundColor: '#4CAF50',
     },
+    trailerButton: {
+      backgroundColor: '#3A5683',
+    },
+    castLink: {
+      textDecorationLine: 'underline',
+    },
+    reasonBadge: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      alignSelf: 'flex-start',
+      gap: 6,
+      backgroundColor: '#3A5683',
+      paddingHorizontal: 10,
+      paddingVertical: 4,
+      borderRadius: 12,
+      marginBottom: 8,
+    },
+    reasonText: {
+      color: '#fff',
+      fontSize: isSmallDevice ? 11 : isLargeDevice ? 13 : 12,
+      fontWeight: '600',
+    },
+    reasonFactors: {
+      backgroundColor: 'rgba(0,0,0,0.6)',
+      borderRadius: 12,
+      padding: 10,
+      marginBottom: 8,
+      gap: 4,
+    },
+    reasonFactorRow: {
+      flexDirection: 'row',
+      justifyContent: 'space-between',
+      gap: 12,
+    },
+    reasonFactorLabel: {
+      color: '#ddd',
+      fontSize: isSmallDevice ? 11 : 12,
+    },
+    reasonFactorValue: {
+      color: '#fff',
+      fontSize: isSmallDevice ? 11 : 12,
+      fontVariant: ['tabular-nums'],
+    },
+    reasonFactorTotal: {
+      fontWeight: '700',
+    },
+    backSectionTitle: {
+      color: '#fff',
+      fontSize: isSmallDevice ? 14 : isLargeDevice ? 18 : 16,
+      fontWeight: '600',
+      marginBottom: 8,
+    },
     typeBadge: { marginLeft: 8, paddingHorizontal: 8, paddingVertical: 2, borderRadius: 12 },
     typeText: { fontSize: isSmallDevice ? 10 : isLargeDevice ? 12 : 11, fontWeight: '600', color: '#fff' },
 
@@ -638,6 +727,8 @@ export default function MovieCard({
     
     // Reset flip state
     setIsFlipped(false);
+    setSelectedTrailerKey(null);
+    autoplayTrailerRef.current = false;
   };
 
   const rotateInterpolate = rotation.interpolate({
@@ -679,7 +770,34 @@ export default function MovieCard({
       } catch {}
     })();
     return () => { cancelled = true; };
-  }, [item.genre_ids]);
+  }, [item.genre_ids, user?.preferences?.language]);
+
+  const region = user?.preferences?.region || DEFAULT_REGION; // Region for availability and age ratings
+  const [providers, setProviders] = React.useState<WatchProvider[]>([]);
+  const shouldLoadProviders = isTopCard || isNextCard; // Avoid fetching for cards deep in the stack
+
+  React.useEffect(() => {
+    if (!shouldLoadProviders) return;
+    let cancelled = false;
+    (async () => {
+      try {
+        const result = await movieApi.getStreamingProviders(item.id, isMovie, region);
+        if (!cancelled) setProviders(result);
+      } catch {}
+    })();
+    return () => { cancelled = true; };
+  }, [item.id, isMovie, shouldLoadProviders, region]);
+
+  // Show the user's own services first, then the most prominent others
+  const userServices = user?.preferences?.streamingServices ?? [];
+  const displayedProviders = providers
+    .map(provider => ({ provider, isOwned: getServiceForProviderId(provider.provider_id, userServices, region) !== null }))
+    .sort((a, b) => Number(b.isOwned) - Number(a.isOwned))
+    .slice(0, 5);
+  const ownedServiceName = providers
+    .map(provider => getServiceForProviderId(provider.provider_id, userServices, region))
+    .find(service => service !== null) ?? undefined;
+  const reasonText = explanation ? describeReason(explanation.reason, ownedServiceName) : null;
 
   const frontRotateY = flip.interpolate({
     inputRange: [0, 1],
@@ -690,7 +808,44 @@ export default function MovieCard({
     outputRange: ['180deg', '360deg'],
   });
 
+  // Full details (runtime, cast, ...) are only needed for the back face, so load them on first flip
+  const [details, setDetails] = React.useState<MovieDetails | TVShowDetails | null>(null);
+
+  React.useEffect(() => {
+    if (!isFlipped || details) return;
+    let cancelled = false;
+    (async () => {
+      try {
+        const result = isMovie ? await movieApi.getMovieDetails(item.id) : await movieApi.getTVShowDetails(item.id);
+        if (!cancelled) setDetails(result);
+      } catch {}
+    })();
+    return () => { cancelled = true; };
+  }, [isFlipped, details, item.id, isMovie]);
+
+  const runtime = details ? movieApi.getRuntime(details) : null;
+  const certification = details ? movieApi.getCertification(details, region) : null;
+  const director = details && 'release_dates' in details
+    ? details.credits?.crew.find(c => c.job === 'Director')?.name
+    : (details as TVShowDetails | null)?.created_by?.[0]?.name;
+  const topCast = (details?.credits?.cast ?? []).slice(0, 5);
+
+  const trailers = useMemo(() => (details ? movieApi.getTrailers(details) : []), [details]);
+
+  // Play the first trailer once details have loaded, if requested from the front face
+  React.useEffect(() => {
+    if (autoplayTrailerRef.current && trailers.length > 0) {
+      autoplayTrailerRef.current = false;
+      setSelectedTrailerKey(trailers[0].key);
+    }
+  }, [trailers]);
+
   const toggleFlip = () => {
+    // Stop any playing trailer when flipping back to the front
+    if (isFlipped) {
+      setSelectedTrailerKey(null);
+      autoplayTrailerRef.current = false;
+    }
     Animated.timing(flip, {
       toValue: isFlipped ? 0 : 1,
       duration: 300,
@@ -698,6 +853,19 @@ export default function MovieCard({
     }).start(() => setIsFlipped(!isFlipped));
   };
 
+  /**
+   * Flip to the back face and play the first trailer.
+   * The card stays in the stack, so its swipe state is untouched.
+   */
+  const watchTrailer = () => {
+    if (trailers.length > 0) {
+      setSelectedTrailerKey(trailers[0].key);
+    } else {
+      autoplayTrailerRef.current = true;
+    }
+    if (!isFlipped) toggleFlip();
+  };
+
   const cardInner = (
     <TouchableWithoutFeedback onPress={toggleFlip}>
       <View style={{ width: CARD_WIDTH, height: cardHeight }}>
@@ -742,6 +910,36 @@ export default function MovieCard({
         </View>
 
         <View style={styles.content}>
+          {reasonText && explanation && (
+            <TouchableOpacity
+              style={styles.reasonBadge}
+              onPress={() => setShowReasonFactors(prev => !prev)}
+              accessibilityRole="button"
+              accessibilityLabel={`${reasonText}. Show why`}
+            >
+              <Ionicons name="sparkles" size={12} color="#fff" />
+              <Text style={styles.reasonText}>{reasonText}</Text>
+              <Ionicons name={showReasonFactors ? 'chevron-up' : 'chevron-down'} size={12} color="#fff" />
+            </TouchableOpacity>
+          )}
+          {showReasonFactors && explanation && (
+            <View style={styles.reasonFactors}>
+              {explanation.factors.map(factor => (
+                <View key={factor.label} style={styles.reasonFactorRow}>
+                  <Text style={styles.reasonFactorLabel}>
+                    {factor.label}{factor.detail ? ` · ${factor.detail}` : ''}
+                  </Text>
+                  <Text style={styles.reasonFactorValue}>
+                    {factor.contribution >= 0 ? '+' : ''}{factor.contribution.toFixed(2)}
+                  </Text>
+                </View>
+              ))}
+              <View style={styles.reasonFactorRow}>
+                <Text style={[styles.reasonFactorLabel, styles.reasonFactorTotal]}>Score</Text>
+                <Text style={[styles.reasonFactorValue, styles.reasonFactorTotal]}>{explanation.score.toFixed(2)}</Text>
+              </View>
+            </View>
+          )}
           <View style={styles.header}>
             <Text style={styles.title}>{title}</Text>
             <Text style={styles.year}>({year})</Text>
@@ -768,6 +966,20 @@ export default function MovieCard({
               {genreNames.join(', ')}
             </Text>
           </View>
+
+          {displayedProviders.length > 0 && (
+            <View style={styles.providerRow}>
+              <Text style={styles.providerLabel}>Stream on:</Text>
+              {displayedProviders.map(({ provider, isOwned }) => (
+                <Image
+                  key={provider.provider_id}
+                  source={{ uri: movieApi.getLogoUrl(provider.logo_path, 'w92') }}
+                  style={[styles.providerLogo, isOwned && styles.providerLogoOwned]}
+                  accessibilityLabel={provider.provider_name}
+                />
+              ))}
+            </View>
+          )}
         </View>
 
         {/* Like/Nope indicators */}
@@ -793,6 +1005,17 @@ export default function MovieCard({
               <Ionicons name="close" size={24} color="#fff" />
             </TouchableOpacity>
 
+            <TouchableOpacity
+              style={[styles.actionButton, styles.trailerButton]}
+              onPress={() => {
+                console.log('Trailer button pressed');
+                watchTrailer();
+              }}
+              disabled={!isTopCard}
+            >
+              <Ionicons name="play" size={22} color="#fff" />
+            </TouchableOpacity>
+
             <TouchableOpacity
               style={[styles.actionButton, styles.likeButton]}
               onPress={() => {
@@ -833,8 +1056,50 @@ export default function MovieCard({
             <View style={styles.backMetaRow}>
               <Text style={styles.backMetaText}>Genres: {genreNames.join(', ') || '—'}</Text>
             </View>
+            {(runtime || certification) && (
+              <View style={styles.backMetaRow}>
+                <Text style={styles.backMetaText}>
+                  {[runtime ? (isMovie ? `${runtime} min` : `${runtime} min/episode`) : null, certification].filter(Boolean).join(' · ')}
+                </Text>
+              </View>
+            )}
+            {director && (
+              <View style={styles.backMetaRow}>
+                <Text style={styles.backMetaText}>{isMovie ? 'Director' : 'Created by'}: {director}</Text>
+              </View>
+            )}
+            {topCast.length > 0 && (
+              <View style={styles.backMetaRow}>
+                <Text style={styles.backMetaText} numberOfLines={2}>
+                  Cast:{' '}
+                  {topCast.map((member, index) => (
+                    <Text key={member.id}>
+                      <Text
+                        style={styles.castLink}
+                        onPress={() => router.push({ pathname: '/person/[id]', params: { id: String(member.id), name: member.name } })}
+                      >
+                        {member.name}
+                      </Text>
+                      {index < topCast.length - 1 ? ', ' : ''}
+                    </Text>
+                  ))}
+                </Text>
+              </View>
+            )}
             <View style={styles.backDivider} />
             <Text style={styles.backOverview}>{item.overview || 'No description available.'}</Text>
+            {isFlipped && details && (
+              <>
+                <View style={styles.backDivider} />
+                <Text style={styles.backSectionTitle}>Trailers</Text>
+                <TrailerPlayer
+                  trailers={trailers}
+                  selectedKey={selectedTrailerKey}
+                  onSelect={setSelectedTrailerKey}
+                  height={(CARD_WIDTH - 40) * 9 / 16}
+                />
+              </>
+            )}
             <View style={styles.backHintContainer}>
               <Text style={styles.backHint}>Tap to flip back</Text>
               <Ionicons name="return-up-back-outline" size={18} color="#fff" style={{ marginTop: 6, opacity: 0.9 }} />
@@ -0,0 +1,75 @@
+/**
+ * OfflineBanner Component
+ *
+ * Shown at the top of the app while the device is offline (or while
+ * writes made offline are still waiting to sync) so users know which
+ * features are degraded.
+ *
+ * @author Flicksy Team
+ * @version 1.0.0
+ */
+
+import { Ionicons } from '@expo/vector-icons';
+import React from 'react';
+import { StyleSheet, Text, View } from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { useAuth } from '../contexts/AuthContext';
+import { useConnectivity } from '../hooks/useConnectivity';
+
+export default function OfflineBanner() {
+  const isOnline = useConnectivity();
+  const { pendingSyncCount } = useAuth();
+  const insets = useSafeAreaInsets();
+
+  if (isOnline && pendingSyncCount === 0) return null;
+
+  const changesLabel = `${pendingSyncCount} ${pendingSyncCount === 1 ? 'change' : 'changes'}`;
+  const message = isOnline
+    ? `Back online - syncing ${changesLabel}…`
+    : 'Offline - showing saved titles. Search and new recommendations are unavailable.';
+
+  return (
+    <View pointerEvents="none" style={[styles.banner, { paddingTop: insets.top + 6 }, isOnline && styles.bannerSyncing]}>
+      <Ionicons name={isOnline ? 'sync' : 'cloud-offline-outline'} size={16} color="#FFFFFF" />
+      <View style={styles.textContainer}>
+        <Text style={styles.message}>{message}</Text>
+        {!isOnline && pendingSyncCount > 0 && (
+          <Text style={styles.detail}>{changesLabel} will sync when you reconnect</Text>
+        )}
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  banner: {
+    position: 'absolute',
+    top: 0,
+    left: 0,
+    right: 0,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingHorizontal: 16,
+    paddingBottom: 8,
+    backgroundColor: '#3A5683', // Secondary color
+    zIndex: 2000,
+  },
+  bannerSyncing: {
+    backgroundColor: '#34C759',
+  },
+  textContainer: {
+    flex: 1,
+  },
+  message: {
+    color: '#FFFFFF',
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  detail: {
+    color: '#FFFFFF',
+    fontSize: 12,
+    opacity: 0.85,
+    marginTop: 2,
+  },
+});
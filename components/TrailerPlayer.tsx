@@ -0,0 +1,138 @@
+/**
+ * TrailerPlayer Component
+ *
+ * Lists a title's trailers and plays the selected one inline in a WebView.
+ * Used on the back face of MovieCard. On web, where WebView is unavailable,
+ * the selected trailer opens in the browser instead.
+ *
+ * @author Flicksy Team
+ * @version 1.0.0
+ */
+
+import { Ionicons } from '@expo/vector-icons';
+import { openBrowserAsync } from 'expo-web-browser';
+import React from 'react';
+import { ActivityIndicator, Platform, ScrollView, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { WebView } from 'react-native-webview';
+import { movieApi, Video } from '../services/movieApi';
+
+/**
+ * Props interface for TrailerPlayer component
+ */
+interface TrailerPlayerProps {
+  trailers: Video[]; // Trailers in display order, from movieApi.getTrailers
+  selectedKey: string | null; // Key of the trailer currently playing, or null if none
+  onSelect: (key: string | null) => void; // Called when a trailer is picked or the player is closed
+  height: number; // Height of the inline player
+}
+
+export default function TrailerPlayer({ trailers, selectedKey, onSelect, height }: TrailerPlayerProps) {
+  const [isPlayerLoading, setIsPlayerLoading] = React.useState(false);
+  const selected = trailers.find(t => t.key === selectedKey) ?? null;
+
+  const handleSelect = (video: Video) => {
+    if (Platform.OS === 'web') {
+      openBrowserAsync(movieApi.getVideoWatchUrl(video));
+      return;
+    }
+    setIsPlayerLoading(true);
+    onSelect(video.key);
+  };
+
+  if (trailers.length === 0) {
+    return <Text style={styles.emptyText}>No trailers available.</Text>;
+  }
+
+  return (
+    <View>
+      {selected && Platform.OS !== 'web' && (
+        <View style={[styles.playerContainer, { height }]}>
+          <WebView
+            source={{ uri: movieApi.getVideoEmbedUrl(selected) }}
+            style={styles.player}
+            allowsInlineMediaPlayback
+            mediaPlaybackRequiresUserAction={false}
+            allowsFullscreenVideo
+            javaScriptEnabled
+            onLoadEnd={() => setIsPlayerLoading(false)}
+          />
+          {isPlayerLoading && (
+            <View style={styles.playerLoading}>
+              <ActivityIndicator color="#fff" />
+            </View>
+          )}
+          <TouchableOpacity style={styles.closeButton} onPress={() => onSelect(null)}>
+            <Ionicons name="close" size={18} color="#fff" />
+          </TouchableOpacity>
+        </View>
+      )}
+
+      <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.list}>
+        {trailers.map(video => {
+          const isSelected = video.key === selectedKey;
+          return (
+            <TouchableOpacity
+              key={video.id}
+              style={[styles.chip, isSelected && styles.chipSelected]}
+              onPress={() => handleSelect(video)}
+            >
+              <Ionicons name={isSelected ? 'pause' : 'play'} size={14} color="#fff" />
+              <Text style={styles.chipText} numberOfLines={1}>{video.name}</Text>
+            </TouchableOpacity>
+          );
+        })}
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  playerContainer: {
+    borderRadius: 12,
+    overflow: 'hidden',
+    backgroundColor: '#000',
+    marginBottom: 10,
+  },
+  player: {
+    flex: 1,
+    backgroundColor: '#000',
+  },
+  playerLoading: {
+    ...StyleSheet.absoluteFillObject,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  closeButton: {
+    position: 'absolute',
+    top: 8,
+    right: 8,
+    backgroundColor: 'rgba(0,0,0,0.6)',
+    borderRadius: 14,
+    padding: 4,
+  },
+  list: {
+    gap: 8,
+  },
+  chip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    maxWidth: 220,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 16,
+    backgroundColor: '#333',
+  },
+  chipSelected: {
+    backgroundColor: '#3A5683', // Secondary color for the playing trailer
+  },
+  chipText: {
+    color: '#fff',
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  emptyText: {
+    color: '#aaa',
+    fontSize: 13,
+  },
+});
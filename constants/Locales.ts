@@ -0,0 +1,31 @@
+/**
+ * Content languages and regions users can pick. Languages are the IETF
+ * tags TMDB accepts for `language`; regions are ISO 3166-1 country codes
+ * used for `region` and watch provider availability.
+ */
+
+// Language used until the user picks one
+export const DEFAULT_LANGUAGE = 'en-US';
+
+export const SUPPORTED_LANGUAGES: { code: string; label: string }[] = [
+  { code: 'en-US', label: 'English' },
+  { code: 'nb-NO', label: 'Norsk' },
+  { code: 'sv-SE', label: 'Svenska' },
+  { code: 'da-DK', label: 'Dansk' },
+  { code: 'fi-FI', label: 'Suomi' },
+  { code: 'de-DE', label: 'Deutsch' },
+  { code: 'fr-FR', label: 'Français' },
+  { code: 'es-ES', label: 'Español' },
+];
+
+export const SUPPORTED_REGIONS: { code: string; label: string }[] = [
+  { code: 'NO', label: 'Norway' },
+  { code: 'SE', label: 'Sweden' },
+  { code: 'DK', label: 'Denmark' },
+  { code: 'FI', label: 'Finland' },
+  { code: 'GB', label: 'United Kingdom' },
+  { code: 'US', label: 'United States' },
+  { code: 'DE', label: 'Germany' },
+  { code: 'FR', label: 'France' },
+  { code: 'ES', label: 'Spain' },
+];
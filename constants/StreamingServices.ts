@@ -0,0 +1,72 @@
+/**
+ * Streaming services users can pick, and the TMDB watch provider IDs that
+ * represent each of them. TMDB lists some services under several provider
+ * entries (e.g. ad-supported tiers or rebrands), and which entries exist
+ * differs by region, so IDs are resolved per region with a fallback.
+ */
+
+export type ServiceKey = 'Netflix' | 'Viaplay' | 'Disney+' | 'Prime Video' | 'HBO Max' | 'Apple TV';
+
+export const ALL_SERVICES: { key: ServiceKey; label: string }[] = [
+  { key: 'Netflix', label: 'Netflix' },
+  { key: 'Viaplay', label: 'Viaplay' },
+  { key: 'Disney+', label: 'Disney+' },
+  { key: 'Prime Video', label: 'Prime Video' },
+  { key: 'HBO Max', label: 'HBO Max' },
+  { key: 'Apple TV', label: 'Apple TV' },
+];
+
+// Region used for availability until the user picks one
+export const DEFAULT_REGION = 'NO';
+
+// Provider IDs used when a region has no specific entry
+const DEFAULT_PROVIDER_IDS: Record<ServiceKey, number[]> = {
+  'Netflix': [8, 1796],
+  'Viaplay': [76],
+  'Disney+': [337],
+  'Prime Video': [119],
+  'HBO Max': [1899, 384],
+  'Apple TV': [350],
+};
+
+// Region-specific overrides (ISO 3166-1 country codes)
+const REGIONAL_PROVIDER_IDS: Record<string, Partial<Record<ServiceKey, number[]>>> = {
+  NO: { 'HBO Max': [1899, 384, 31] },
+  SE: { 'HBO Max': [1899, 384, 31] },
+  DK: { 'HBO Max': [1899, 384, 31] },
+  FI: { 'HBO Max': [1899, 384, 31] },
+  US: { 'Prime Video': [9, 119] },
+};
+
+/**
+ * Get the TMDB provider IDs for a single service in a region
+ */
+export function getProviderIdsForService(service: ServiceKey, region: string = DEFAULT_REGION): number[] {
+  return REGIONAL_PROVIDER_IDS[region]?.[service] ?? DEFAULT_PROVIDER_IDS[service];
+}
+
+/**
+ * Get the TMDB provider IDs for all of a user's selected services in a region.
+ * Unknown service names are ignored.
+ */
+export function getProviderIdsForServices(services: string[], region: string = DEFAULT_REGION): number[] {
+  const ids = new Set<number>();
+  for (const service of services) {
+    if (service in DEFAULT_PROVIDER_IDS) {
+      for (const id of getProviderIdsForService(service as ServiceKey, region)) ids.add(id);
+    }
+  }
+  return Array.from(ids);
+}
+
+/**
+ * Find which of the user's services a TMDB provider ID belongs to, if any
+ */
+export function getServiceForProviderId(providerId: number, services: string[], region: string = DEFAULT_REGION): ServiceKey | null {
+  for (const service of services) {
+    if (service in DEFAULT_PROVIDER_IDS && getProviderIdsForService(service as ServiceKey, region).includes(providerId)) {
+      return service as ServiceKey;
+    }
+  }
+  return null;
+}
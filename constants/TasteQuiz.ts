@@ -0,0 +1,27 @@
+/**
+ * Titles shown in the onboarding taste quiz. Well-known enough that most
+ * people have an opinion, and spread across genres, decades and movies vs
+ * TV so every answer tells the recommender something different.
+ */
+
+import type { InteractionKey } from '../services/firebaseDb';
+
+export const TASTE_QUIZ_TITLES: InteractionKey[] = [
+  'movie_603', // The Matrix - sci-fi, action
+  'tv_1668', // Friends - sitcom
+  'movie_694', // The Shining - horror
+  'movie_862', // Toy Story - animation, family
+  'tv_1396', // Breaking Bad - crime drama
+  'movie_313369', // La La Land - romance, musical
+  'movie_120', // The Lord of the Rings: The Fellowship of the Ring - fantasy, adventure
+  'tv_68595', // Planet Earth II - documentary
+  'movie_680', // Pulp Fiction - crime
+  'movie_346698', // Barbie - comedy
+  'tv_66732', // Stranger Things - sci-fi, mystery
+  'movie_857', // Saving Private Ryan - war
+  'movie_496243', // Parasite - thriller
+  'tv_94605', // Arcane - animation, action
+  'movie_13', // Forrest Gump - drama
+  'tv_1399', // Game of Thrones - fantasy drama
+  'movie_872585', // Oppenheimer - history
+];
@@ -4,6 +4,7 @@
  * Provides authentication state and methods throughout the app.
  * Manages user login, registration, logout, and preference updates.
  * Uses Firebase Authentication for user management and Firebase Realtime Database for data storage.
+ * Writes made while offline are queued locally and replayed when the connection returns.
  * 
  * @author Flicksy Team
  * @version 2.0.0
@@ -17,8 +18,17 @@ import {
     signOut
 } from 'firebase/auth';
 import React, { createContext, useContext, useEffect, useState } from 'react';
+import { connectivityService } from '../services/connectivityService';
+import { clearDeckBuffer } from '../services/deckBuffer';
 import { auth } from '../services/firebase';
-import { createUser, getUser, MovieInteraction, MovieMetadata, recordInteraction, updateUserPreferences } from '../services/firebaseDb';
+import { createUser, getUser, InteractionKey, MovieInteraction, MovieMetadata } from '../services/firebaseDb';
+import { offlineQueue } from '../services/offlineQueue';
+import { migrateGenrePreferences, migratePreferenceKeys, needsGenreMigration, needsKeyMigration } from '../services/preferenceMigration';
+import { movieApi } from '../services/movieApi';
+import { recommendationService } from '../services/recommendationService';
+import { clearTasteModel } from '../services/tasteModelStore';
+import { DEFAULT_LANGUAGE } from '../constants/Locales';
+import { DEFAULT_REGION } from '../constants/StreamingServices';
 
 /**
  * User interface defining the structure of user data
@@ -28,12 +38,19 @@ interface User {
   email: string; // User's email address
   name: string; // User's display name
   preferences: {
-    genres: string[]; // User's preferred genres
-    likedMovies: number[]; // Array of liked movie IDs
-    dislikedMovies: number[]; // Array of disliked movie IDs
-    watchlist: number[]; // Array of watchlist movie/TV show IDs
-    seen: number[]; // Array of seen movie/TV show IDs
+    genres: number[]; // User's preferred genres as catalog IDs
+    likedMovies: InteractionKey[]; // Liked movies and TV shows, e.g. "movie_550"
+    dislikedMovies: InteractionKey[]; // Disliked movies and TV shows
+    watchlist: InteractionKey[]; // Watchlisted movies and TV shows
+    seen: InteractionKey[]; // Seen movies and TV shows
     streamingServices: string[]; // User's selected streaming services
+    onlyMyServices?: boolean; // Only show titles available on the selected streaming services
+    language?: string; // Content language for titles and overviews (e.g. 'nb-NO')
+    region?: string; // Region for release dates and streaming availability (e.g. 'NO')
+    diversity?: number; // How varied recommendation decks are (0-1)
+    explorationRate?: number; // Share of recommendations from outside the user's profile (0-1)
+    tasteHalfLifeDays?: number; // Days until a swipe counts half as much in recommendations (0 = never)
+    tasteQuizDone?: boolean; // Finished or skipped the onboarding taste quiz
   };
 }
 
@@ -48,8 +65,22 @@ interface AuthContextType {
   logout: () => Promise<void>; // Logout method
   updatePreferences: (preferences: Partial<User['preferences']>) => Promise<void>; // Update user preferences
   recordMovieInteraction: (movieId: number, action: 'liked' | 'disliked' | 'watchlisted' | 'seen', movieMetadata: MovieMetadata) => Promise<void>; // Record movie interaction for ML
+  pendingSyncCount: number; // Number of writes queued while offline
 }
 
+/**
+ * Point TMDB requests at the user's language and region
+ *
+ * Called before the user is put in state so screens reacting to the new
+ * user already fetch localized content.
+ */
+const applyContentLocale = (preferences: Partial<User['preferences']> | undefined) => {
+  movieApi.setLocale({
+    language: preferences?.language || DEFAULT_LANGUAGE,
+    region: preferences?.region || DEFAULT_REGION,
+  });
+};
+
 // Create the authentication context
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
@@ -80,6 +111,7 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
   
   const [user, setUser] = useState<User | null>(null); // Current user state
   const [isLoading, setIsLoading] = useState(true); // Loading state for auth operations
+  const [pendingSyncCount, setPendingSyncCount] = useState(0); // Writes waiting for a connection
 
   // ==================== EFFECTS ====================
   
@@ -89,15 +121,29 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
   useEffect(() => {
     const unsubscribe = onAuthStateChanged(auth, async (firebaseUser: FirebaseUser | null) => {
       if (firebaseUser) {
+        // Replay only this user's queued writes; others wait until their user signs in again
+        offlineQueue.setUser(firebaseUser.uid);
         // User is signed in, get their data from Firebase Realtime Database
         try {
           const userData = await getUser(firebaseUser.uid);
           if (userData) {
+            let preferences = userData.preferences;
+            // Records from before typed keys store bare IDs; convert them once
+            if (needsKeyMigration(preferences)) {
+              preferences = (await migratePreferenceKeys(firebaseUser.uid, preferences)).preferences;
+            }
+            // Genres used to be stored as English names
+            if (needsGenreMigration(preferences)) {
+              preferences = (await migrateGenrePreferences(firebaseUser.uid, preferences)).preferences;
+            }
+            applyContentLocale(preferences);
+            // Load this user's learned taste before anything asks for recommendations
+            await recommendationService.loadModel(firebaseUser.uid);
             setUser({
               id: firebaseUser.uid,
               email: firebaseUser.email || '',
               name: userData.name || '',
-              preferences: userData.preferences
+              preferences
             });
           }
         } catch (error) {
@@ -105,6 +151,9 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
         }
       } else {
         // User is signed out
+        applyContentLocale(undefined);
+        recommendationService.resetPreferences();
+        offlineQueue.setUser(null);
         setUser(null);
       }
       setIsLoading(false);
@@ -113,6 +162,29 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     return () => unsubscribe();
   }, []);
 
+  /**
+   * Track connectivity and replay queued writes whenever the connection returns
+   */
+  useEffect(() => {
+    connectivityService.start();
+    const unsubscribeQueue = offlineQueue.subscribe(setPendingSyncCount);
+    const unsubscribeConnectivity = connectivityService.subscribe((isOnline) => {
+      if (isOnline) {
+        offlineQueue.flush().catch((error) => console.error('Error replaying offline writes:', error));
+      }
+    });
+
+    // Replay anything left over from a previous session
+    if (connectivityService.isOnline()) {
+      offlineQueue.flush().catch((error) => console.error('Error replaying offline writes:', error));
+    }
+
+    return () => {
+      unsubscribeQueue();
+      unsubscribeConnectivity();
+    };
+  }, []);
+
   const login = async (email: string, password: string): Promise<boolean> => {
     try {
       await signInWithEmailAndPassword(auth, email, password);
@@ -151,6 +223,11 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
 
   const logout = async () => {
     try {
+      if (user) {
+        // Don't leave this user's cached deck or learned taste on a shared device
+        await clearDeckBuffer(user.id);
+        await clearTasteModel(user.id);
+      }
       await signOut(auth);
     } catch (error) {
       console.error('Logout error:', error);
@@ -161,14 +238,17 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     if (!user) return;
 
     try {
-      // Update preferences in Firebase Realtime Database
-      await updateUserPreferences(user.id, preferences);
+      // Update preferences in Firebase Realtime Database, or queue them behind pending offline writes
+      await offlineQueue.writePreferences(user.id, preferences);
       
       // Update local state
       const updatedUser = {
         ...user,
         preferences: { ...user.preferences, ...preferences },
       };
+      if ('language' in preferences || 'region' in preferences) {
+        applyContentLocale(updatedUser.preferences);
+      }
       setUser(updatedUser);
     } catch (error) {
       console.error('Error updating preferences:', error);
@@ -188,14 +268,21 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     }
 
     try {
+      const experiment = recommendationService.getScorerAssignment(user.id);
       const interaction: MovieInteraction = {
         movieId,
         action,
         timestamp: Date.now(),
-        movieMetadata
+        movieMetadata,
+        ...(experiment && { experiment }),
       };
 
-      await recordInteraction(user.id, interaction);
+      // Learn locally right away, whether or not the write goes through now
+      recommendationService.learnFromInteraction(user.id, interaction).catch((error) => {
+        console.warn('Error learning from interaction:', error);
+      });
+
+      await offlineQueue.writeInteraction(user.id, interaction);
     } catch (error) {
       console.error('Error recording movie interaction:', error);
       throw error;
@@ -203,7 +290,7 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
   };
 
   return (
-    <AuthContext.Provider value={{ user, isLoading, login, register, logout, updatePreferences, recordMovieInteraction }}>
+    <AuthContext.Provider value={{ user, isLoading, login, register, logout, updatePreferences, recordMovieInteraction, pendingSyncCount }}>
       {children}
     </AuthContext.Provider>
   );
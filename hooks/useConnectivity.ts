@@ -0,0 +1,18 @@
+import { useEffect, useState } from 'react';
+
+import { connectivityService } from '@/services/connectivityService';
+
+/**
+ * Returns whether the device is currently online and re-renders when that changes.
+ */
+export function useConnectivity(): boolean {
+  const [isOnline, setIsOnline] = useState(connectivityService.isOnline());
+
+  useEffect(() => {
+    // Pick up any change that happened between render and subscribe
+    setIsOnline(connectivityService.isOnline());
+    return connectivityService.subscribe(setIsOnline);
+  }, []);
+
+  return isOnline;
+}
@@ -1,19 +1,39 @@
 import React, { useEffect, useMemo, useState } from 'react';
 import { useRouter } from 'expo-router';
-import { Alert, FlatList, Pressable, StyleSheet, View } from 'react-native';
+import { ActivityIndicator, Alert, FlatList, Pressable, StyleSheet, View } from 'react-native';
 import { ThemedText } from '../components/ThemedText';
 import { ThemedView } from '../components/ThemedView';
-import { ALL_GENRES } from '../constants/Genres';
 import { useAuth } from '../contexts/AuthContext';
+import { CatalogGenre, loadGenreCatalog } from '../services/genreCatalog';
 
 export default function GenreSelection() {
   const { user, updatePreferences } = useAuth();
   const router = useRouter();
   const initial = useMemo(() => new Set(user?.preferences.genres ?? []), [user?.preferences.genres]);
-  const [selected, setSelected] = useState<Set<string>>(initial);
+  const [selected, setSelected] = useState<Set<number>>(initial);
+  const [genres, setGenres] = useState<CatalogGenre[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [loadError, setLoadError] = useState<string | null>(null);
   const [isSaving, setIsSaving] = useState(false);
 
-  const toggleGenre = (genre: string) => {
+  // Genre names follow the user's content language
+  const loadGenres = async () => {
+    setIsLoading(true);
+    setLoadError(null);
+    try {
+      setGenres(await loadGenreCatalog());
+    } catch (e: any) {
+      setLoadError(e?.message ?? 'Failed to load genres');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadGenres();
+  }, [user?.preferences.language]);
+
+  const toggleGenre = (genre: number) => {
     setSelected(prev => {
       const next = new Set(prev);
       if (next.has(genre)) next.delete(genre); else next.add(genre);
@@ -45,11 +65,11 @@ export default function GenreSelection() {
     }
   };
 
-  const renderItem = ({ item }: { item: string }) => {
-    const isSelected = selected.has(item);
+  const renderItem = ({ item }: { item: CatalogGenre }) => {
+    const isSelected = selected.has(item.id);
     return (
-      <Pressable onPress={() => toggleGenre(item)} style={[styles.chip, isSelected && styles.chipSelected]}>
-        <ThemedText style={[styles.chipText, isSelected && styles.chipTextSelected]}>{item}</ThemedText>
+      <Pressable onPress={() => toggleGenre(item.id)} style={[styles.chip, isSelected && styles.chipSelected]}>
+        <ThemedText style={[styles.chipText, isSelected && styles.chipTextSelected]}>{item.name}</ThemedText>
       </Pressable>
     );
   };
@@ -63,14 +83,25 @@ export default function GenreSelection() {
         </Pressable>
       </View>
       <ThemedText type="subtitle" style={styles.sectionTitle}>Select your favorite genres</ThemedText>
-      <FlatList
-        data={ALL_GENRES}
-        numColumns={2}
-        keyExtractor={(g) => g}
-        renderItem={renderItem}
-        columnWrapperStyle={styles.row}
-        contentContainerStyle={styles.listContent}
-      />
+      {isLoading ? (
+        <ActivityIndicator style={styles.status} color="#007AFF" />
+      ) : loadError ? (
+        <View style={styles.status}>
+          <ThemedText style={styles.errorText}>{loadError}</ThemedText>
+          <Pressable onPress={loadGenres} style={styles.saveButton}>
+            <ThemedText style={styles.saveButtonText}>Retry</ThemedText>
+          </Pressable>
+        </View>
+      ) : (
+        <FlatList
+          data={genres}
+          numColumns={2}
+          keyExtractor={(g) => String(g.id)}
+          renderItem={renderItem}
+          columnWrapperStyle={styles.row}
+          contentContainerStyle={styles.listContent}
+        />
+      )}
     </ThemedView>
   );
 }
@@ -90,6 +121,15 @@ const styles = StyleSheet.create({
     marginTop: 8,
     marginBottom: 4,
   },
+  status: {
+    marginTop: 32,
+    alignItems: 'center',
+    gap: 12,
+  },
+  errorText: {
+    textAlign: 'center',
+    opacity: 0.7,
+  },
   listContent: {
     paddingVertical: 8,
   },
@@ -0,0 +1,152 @@
+/**
+ * LanguageRegion Screen
+ *
+ * Lets users pick the language for titles and overviews and the region
+ * used for release dates, age ratings and streaming availability.
+ * Saved to `user.preferences.language` / `user.preferences.region`.
+ */
+import React, { useState } from 'react';
+import { ScrollView, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { useRouter } from 'expo-router';
+import { ThemedText } from '../components/ThemedText';
+import { ThemedView } from '../components/ThemedView';
+import { DEFAULT_LANGUAGE, SUPPORTED_LANGUAGES, SUPPORTED_REGIONS } from '../constants/Locales';
+import { DEFAULT_REGION } from '../constants/StreamingServices';
+import { useAuth } from '../contexts/AuthContext';
+
+export default function LanguageRegion() {
+  const { user, updatePreferences } = useAuth();
+  const router = useRouter();
+
+  const [language, setLanguage] = useState(user?.preferences?.language || DEFAULT_LANGUAGE);
+  const [region, setRegion] = useState(user?.preferences?.region || DEFAULT_REGION);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Keep the selection in sync if preferences change elsewhere
+  React.useEffect(() => {
+    setLanguage(user?.preferences?.language || DEFAULT_LANGUAGE);
+    setRegion(user?.preferences?.region || DEFAULT_REGION);
+  }, [user?.preferences?.language, user?.preferences?.region]);
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await updatePreferences({ language, region });
+      router.back();
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const renderOptions = (
+    options: { code: string; label: string }[],
+    selected: string,
+    onSelect: (code: string) => void
+  ) => (
+    <View style={styles.grid}>
+      {options.map(({ code, label }) => {
+        const isSelected = selected === code;
+        return (
+          <TouchableOpacity
+            key={code}
+            style={[styles.card, isSelected && styles.cardSelected]}
+            activeOpacity={0.8}
+            onPress={() => onSelect(code)}
+          >
+            <ThemedText style={[styles.cardLabel, isSelected && styles.cardLabelSelected]}>{label}</ThemedText>
+          </TouchableOpacity>
+        );
+      })}
+    </View>
+  );
+
+  return (
+    <ThemedView style={styles.container}>
+      <ScrollView contentContainerStyle={styles.listContainer}>
+        <ThemedText style={styles.sectionTitle}>Language</ThemedText>
+        <ThemedText style={styles.sectionSubtitle}>Used for titles, overviews and genre names</ThemedText>
+        {renderOptions(SUPPORTED_LANGUAGES, language, setLanguage)}
+
+        <ThemedText style={styles.sectionTitle}>Region</ThemedText>
+        <ThemedText style={styles.sectionSubtitle}>Used for release dates, age ratings and where to watch</ThemedText>
+        {renderOptions(SUPPORTED_REGIONS, region, setRegion)}
+      </ScrollView>
+
+      <View style={styles.footer}>
+        <TouchableOpacity
+          onPress={handleSave}
+          style={[styles.saveButton, isSaving && styles.saveButtonDisabled]}
+          disabled={isSaving}
+        >
+          <Text style={styles.saveButtonText}>{isSaving ? 'Saving…' : 'Save'}</Text>
+        </TouchableOpacity>
+      </View>
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  listContainer: {
+    paddingHorizontal: 20,
+    paddingTop: 20,
+    paddingBottom: 20,
+  },
+  sectionTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    marginTop: 8,
+  },
+  sectionSubtitle: {
+    fontSize: 14,
+    opacity: 0.7,
+    marginTop: 4,
+    marginBottom: 12,
+  },
+  grid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'space-between',
+    marginBottom: 16,
+  },
+  card: {
+    width: '48%',
+    marginBottom: 12,
+    borderWidth: 1,
+    borderColor: '#3A5683', // Secondary color for border
+    borderRadius: 14,
+    padding: 14,
+    backgroundColor: '#FFFFFF', // Tertiary color for background
+    alignItems: 'center',
+  },
+  cardSelected: {
+    backgroundColor: '#3A5683', // Secondary color for selected background
+  },
+  cardLabel: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#000000', // Black text on tertiary background
+  },
+  cardLabelSelected: {
+    color: '#FFFFFF', // White text when card is selected (secondary background)
+  },
+  footer: {
+    padding: 20,
+  },
+  saveButton: {
+    backgroundColor: '#3A5683', // Secondary color for button
+    borderRadius: 12,
+    padding: 16,
+    alignItems: 'center',
+  },
+  saveButtonDisabled: {
+    backgroundColor: '#9EC6FF',
+  },
+  saveButtonText: {
+    color: '#FFFFFF', // White text on secondary color
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
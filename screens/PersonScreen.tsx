@@ -0,0 +1,493 @@
+/**
+ * PersonScreen Component
+ *
+ * Shows an actor's or crew member's profile: photo, biography, the titles
+ * they are best known for and their full filmography. The filmography can
+ * be sorted and filtered, and each entry shows whether the title is on the
+ * user's watchlist or already seen.
+ *
+ * @author Flicksy Team
+ * @version 1.0.0
+ */
+
+import { Ionicons } from '@expo/vector-icons';
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  ActivityIndicator,
+  FlatList,
+  Image,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { ThemedText } from '../components/ThemedText';
+import { ThemedView } from '../components/ThemedView';
+import { useAuth } from '../contexts/AuthContext';
+import { isConnectivityError, TMDBNotFoundError } from '../services/apiErrors';
+import { generateInteractionKey } from '../services/firebaseDb';
+import { movieApi, PersonCredit, PersonDetails } from '../services/movieApi';
+
+type SortOption = 'popularity' | 'newest' | 'oldest' | 'rating';
+type MediaFilter = 'all' | 'movie' | 'tv';
+type RoleFilter = 'all' | 'cast' | 'crew';
+
+const SORT_OPTIONS: { key: SortOption; label: string }[] = [
+  { key: 'popularity', label: 'Popular' },
+  { key: 'newest', label: 'Newest' },
+  { key: 'oldest', label: 'Oldest' },
+  { key: 'rating', label: 'Rating' },
+];
+
+const MEDIA_FILTERS: { key: MediaFilter; label: string }[] = [
+  { key: 'all', label: 'All' },
+  { key: 'movie', label: 'Film' },
+  { key: 'tv', label: 'TV Show' },
+];
+
+const ROLE_FILTERS: { key: RoleFilter; label: string }[] = [
+  { key: 'all', label: 'All roles' },
+  { key: 'cast', label: 'Acting' },
+  { key: 'crew', label: 'Crew' },
+];
+
+/**
+ * Release date of a credit, or empty string if unknown
+ */
+const getCreditDate = (credit: PersonCredit): string =>
+  (credit.media_type === 'movie' ? credit.release_date : credit.first_air_date) || '';
+
+/**
+ * Describe the person's role on a title, e.g. "as Neo" or "Director"
+ */
+const describeRole = (credit: PersonCredit): string => {
+  const parts: string[] = [];
+  if (credit.character) parts.push(`as ${credit.character}`);
+  if (credit.job) parts.push(credit.job);
+  return parts.join(' · ');
+};
+
+interface PersonScreenProps {
+  personId: number;
+}
+
+export default function PersonScreen({ personId }: PersonScreenProps) {
+  const { user } = useAuth();
+  const [person, setPerson] = useState<PersonDetails | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [isBioExpanded, setIsBioExpanded] = useState(false);
+  const [sortOption, setSortOption] = useState<SortOption>('popularity');
+  const [mediaFilter, setMediaFilter] = useState<MediaFilter>('all');
+  const [roleFilter, setRoleFilter] = useState<RoleFilter>('all');
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadPerson = async () => {
+      try {
+        setIsLoading(true);
+        setError(null);
+        const details = await movieApi.getPersonDetails(personId);
+        if (!cancelled) setPerson(details);
+      } catch (err) {
+        console.error('Error loading person:', err);
+        if (cancelled) return;
+        if (err instanceof TMDBNotFoundError) {
+          setError('This person could not be found.');
+        } else if (isConnectivityError(err)) {
+          setError('Could not reach the movie database. Check your connection.');
+        } else {
+          setError('Failed to load this person.');
+        }
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+
+    loadPerson();
+    return () => {
+      cancelled = true;
+    };
+  }, [personId]);
+
+  const watchlistKeys = useMemo(() => new Set(user?.preferences.watchlist ?? []), [user?.preferences.watchlist]);
+  const seenKeys = useMemo(() => new Set(user?.preferences.seen ?? []), [user?.preferences.seen]);
+
+  const knownFor = useMemo(() => (person ? movieApi.getKnownFor(person) : []), [person]);
+  const filmography = useMemo(() => (person ? movieApi.getFilmography(person) : []), [person]);
+
+  const displayedCredits = useMemo(() => {
+    let credits = filmography;
+
+    if (mediaFilter !== 'all') {
+      credits = credits.filter(c => c.media_type === mediaFilter);
+    }
+    if (roleFilter === 'cast') {
+      credits = credits.filter(c => !!c.character);
+    } else if (roleFilter === 'crew') {
+      credits = credits.filter(c => !!c.job);
+    }
+
+    const sorted = [...credits];
+    switch (sortOption) {
+      case 'newest':
+        // Unreleased titles without a date go last
+        sorted.sort((a, b) => (getCreditDate(b) || '0').localeCompare(getCreditDate(a) || '0'));
+        break;
+      case 'oldest':
+        sorted.sort((a, b) => (getCreditDate(a) || '9').localeCompare(getCreditDate(b) || '9'));
+        break;
+      case 'rating':
+        sorted.sort((a, b) => (b.vote_average ?? 0) - (a.vote_average ?? 0));
+        break;
+      default:
+        sorted.sort((a, b) => (b.popularity ?? 0) - (a.popularity ?? 0));
+    }
+    return sorted;
+  }, [filmography, mediaFilter, roleFilter, sortOption]);
+
+  const renderCredit = ({ item }: { item: PersonCredit }) => {
+    const date = getCreditDate(item);
+    const year = date ? new Date(date).getFullYear() : 'TBA';
+    const key = generateInteractionKey(item.id, item.media_type === 'movie');
+    const inWatchlist = watchlistKeys.has(key);
+    const isSeen = seenKeys.has(key);
+
+    return (
+      <View style={styles.creditRow}>
+        <Image
+          source={{ uri: movieApi.getImageUrl(item.poster_path, 'w185') }}
+          style={styles.creditPoster}
+          resizeMode="cover"
+        />
+        <View style={styles.creditContent}>
+          <Text style={styles.creditTitle} numberOfLines={2}>{item.title || item.name}</Text>
+          <Text style={styles.creditMeta}>
+            {year} · {item.media_type === 'movie' ? 'Movie' : 'TV Show'}
+            {item.vote_count > 0 ? ` · ★ ${item.vote_average.toFixed(1)}` : ''}
+          </Text>
+          {describeRole(item) ? (
+            <Text style={styles.creditRole} numberOfLines={1}>{describeRole(item)}</Text>
+          ) : null}
+          {(inWatchlist || isSeen) && (
+            <View style={styles.statusRow}>
+              {inWatchlist && !isSeen && (
+                <View style={[styles.statusBadge, styles.watchlistBadge]}>
+                  <Ionicons name="bookmark" size={12} color="#fff" />
+                  <Text style={styles.statusText}>Watchlist</Text>
+                </View>
+              )}
+              {isSeen && (
+                <View style={[styles.statusBadge, styles.seenBadge]}>
+                  <Ionicons name="eye" size={12} color="#fff" />
+                  <Text style={styles.statusText}>Seen</Text>
+                </View>
+              )}
+            </View>
+          )}
+        </View>
+      </View>
+    );
+  };
+
+  const renderChips = <T extends string>(
+    options: { key: T; label: string }[],
+    selected: T,
+    onSelect: (key: T) => void
+  ) => (
+    <View style={styles.chipsRow}>
+      {options.map(option => (
+        <TouchableOpacity
+          key={option.key}
+          style={[styles.chip, selected === option.key && styles.chipSelected]}
+          onPress={() => onSelect(option.key)}
+        >
+          <Text style={[styles.chipText, selected === option.key && styles.chipTextSelected]}>{option.label}</Text>
+        </TouchableOpacity>
+      ))}
+    </View>
+  );
+
+  const renderHeader = () => {
+    if (!person) return null;
+    const lifespan = [person.birthday, person.deathday].filter(Boolean).join(' – ');
+
+    return (
+      <View>
+        <View style={styles.profileRow}>
+          {person.profile_path ? (
+            <Image
+              source={{ uri: movieApi.getImageUrl(person.profile_path, 'w342') }}
+              style={styles.profileImage}
+              resizeMode="cover"
+            />
+          ) : (
+            <View style={[styles.profileImage, styles.profilePlaceholder]}>
+              <Ionicons name="person" size={48} color="#999" />
+            </View>
+          )}
+          <View style={styles.profileInfo}>
+            <ThemedText style={styles.name}>{person.name}</ThemedText>
+            {person.known_for_department ? (
+              <Text style={styles.department}>{person.known_for_department}</Text>
+            ) : null}
+            {lifespan ? <Text style={styles.profileMeta}>{lifespan}</Text> : null}
+            {person.place_of_birth ? (
+              <Text style={styles.profileMeta} numberOfLines={2}>{person.place_of_birth}</Text>
+            ) : null}
+          </View>
+        </View>
+
+        {person.biography ? (
+          <TouchableOpacity onPress={() => setIsBioExpanded(prev => !prev)}>
+            <Text style={styles.biography} numberOfLines={isBioExpanded ? undefined : 4}>{person.biography}</Text>
+            <Text style={styles.readMore}>{isBioExpanded ? 'Show less' : 'Read more'}</Text>
+          </TouchableOpacity>
+        ) : null}
+
+        {knownFor.length > 0 && (
+          <>
+            <Text style={styles.sectionTitle}>Known for</Text>
+            <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.knownForList}>
+              {knownFor.map(credit => (
+                <View key={`${credit.media_type}:${credit.id}`} style={styles.knownForItem}>
+                  <Image
+                    source={{ uri: movieApi.getImageUrl(credit.poster_path, 'w185') }}
+                    style={styles.knownForPoster}
+                    resizeMode="cover"
+                  />
+                  <Text style={styles.knownForTitle} numberOfLines={2}>{credit.title || credit.name}</Text>
+                </View>
+              ))}
+            </ScrollView>
+          </>
+        )}
+
+        <Text style={styles.sectionTitle}>Filmography ({displayedCredits.length})</Text>
+        {renderChips(SORT_OPTIONS, sortOption, setSortOption)}
+        {renderChips(MEDIA_FILTERS, mediaFilter, setMediaFilter)}
+        {renderChips(ROLE_FILTERS, roleFilter, setRoleFilter)}
+      </View>
+    );
+  };
+
+  if (isLoading) {
+    return (
+      <ThemedView style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color="#3A5683" />
+      </ThemedView>
+    );
+  }
+
+  if (error || !person) {
+    return (
+      <ThemedView style={styles.loadingContainer}>
+        <Ionicons name="alert-circle-outline" size={64} color="#999" />
+        <ThemedText style={styles.errorText}>{error ?? 'Failed to load this person.'}</ThemedText>
+      </ThemedView>
+    );
+  }
+
+  return (
+    <ThemedView style={styles.container}>
+      <FlatList
+        data={displayedCredits}
+        renderItem={renderCredit}
+        keyExtractor={item => `${item.media_type}:${item.id}`}
+        ListHeaderComponent={renderHeader()}
+        ListEmptyComponent={<Text style={styles.emptyText}>No titles match these filters.</Text>}
+        contentContainerStyle={styles.listContainer}
+        showsVerticalScrollIndicator={false}
+      />
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  errorText: {
+    fontSize: 16,
+    color: '#666',
+    textAlign: 'center',
+    marginTop: 16,
+  },
+  listContainer: {
+    padding: 20,
+    paddingBottom: 100,
+  },
+  profileRow: {
+    flexDirection: 'row',
+    marginBottom: 16,
+  },
+  profileImage: {
+    width: 110,
+    height: 165,
+    borderRadius: 12,
+    backgroundColor: '#eee',
+  },
+  profilePlaceholder: {
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  profileInfo: {
+    flex: 1,
+    marginLeft: 16,
+    justifyContent: 'center',
+  },
+  name: {
+    fontSize: 24,
+    fontWeight: '700',
+    lineHeight: 30,
+    marginBottom: 4,
+  },
+  department: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#3A5683',
+    marginBottom: 6,
+  },
+  profileMeta: {
+    fontSize: 13,
+    color: '#666',
+    marginBottom: 2,
+  },
+  biography: {
+    fontSize: 14,
+    lineHeight: 20,
+    color: '#333',
+  },
+  readMore: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#3A5683',
+    marginTop: 4,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#3A5683', // Secondary color for section headers
+    marginTop: 20,
+    marginBottom: 10,
+  },
+  knownForList: {
+    gap: 12,
+  },
+  knownForItem: {
+    width: 100,
+  },
+  knownForPoster: {
+    width: 100,
+    height: 150,
+    borderRadius: 8,
+    backgroundColor: '#eee',
+    marginBottom: 6,
+  },
+  knownForTitle: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#000000',
+  },
+  chipsRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 8,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 999,
+    borderWidth: 1,
+    borderColor: '#ccc',
+    backgroundColor: '#f7f7f7',
+  },
+  chipSelected: {
+    backgroundColor: '#3A5683', // Secondary color for the active option
+    borderColor: '#3A5683',
+  },
+  chipText: {
+    color: '#000000',
+    fontWeight: '600',
+  },
+  chipTextSelected: {
+    color: '#FFFFFF',
+  },
+  creditRow: {
+    flexDirection: 'row',
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    padding: 10,
+    marginTop: 10,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.1,
+    shadowRadius: 3,
+    elevation: 2,
+  },
+  creditPoster: {
+    width: 56,
+    height: 84,
+    borderRadius: 6,
+    backgroundColor: '#eee',
+  },
+  creditContent: {
+    flex: 1,
+    marginLeft: 12,
+  },
+  creditTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#000000',
+    marginBottom: 4,
+  },
+  creditMeta: {
+    fontSize: 13,
+    color: '#666',
+    marginBottom: 2,
+  },
+  creditRole: {
+    fontSize: 13,
+    fontStyle: 'italic',
+    color: '#444',
+  },
+  statusRow: {
+    flexDirection: 'row',
+    gap: 6,
+    marginTop: 6,
+  },
+  statusBadge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingHorizontal: 8,
+    paddingVertical: 3,
+    borderRadius: 10,
+  },
+  watchlistBadge: {
+    backgroundColor: '#3A5683',
+  },
+  seenBadge: {
+    backgroundColor: '#4CAF50',
+  },
+  statusText: {
+    color: '#fff',
+    fontSize: 11,
+    fontWeight: '600',
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#666',
+    textAlign: 'center',
+    marginTop: 20,
+  },
+});
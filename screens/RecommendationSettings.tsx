@@ -0,0 +1,187 @@
+/**
+ * RecommendationSettings Screen
+ *
+ * Lets users tune how their swipe deck is put together: how varied it is
+ * across genres, types, decades and languages, how often it suggests
+ * titles outside their usual taste, and how quickly old swipes fade.
+ * Saved to `user.preferences.diversity` / `user.preferences.explorationRate` /
+ * `user.preferences.tasteHalfLifeDays`.
+ */
+import React, { useState } from 'react';
+import { ScrollView, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { useRouter } from 'expo-router';
+import { ThemedText } from '../components/ThemedText';
+import { ThemedView } from '../components/ThemedView';
+import { useAuth } from '../contexts/AuthContext';
+import {
+  DEFAULT_DIVERSITY,
+  DEFAULT_EXPLORATION_RATE,
+  DEFAULT_TASTE_HALF_LIFE_DAYS,
+} from '../services/recommendationService';
+
+type Option = { value: number; label: string; description: string };
+
+const DIVERSITY_OPTIONS: Option[] = [
+  { value: 0.1, label: 'Focused', description: 'Stick close to what fits you best' },
+  { value: DEFAULT_DIVERSITY, label: 'Balanced', description: 'Mix it up a little' },
+  { value: 0.6, label: 'Varied', description: 'Spread across genres, decades and languages' },
+];
+
+const EXPLORATION_OPTIONS: Option[] = [
+  { value: 0, label: 'Off', description: 'Only titles that match your taste' },
+  { value: DEFAULT_EXPLORATION_RATE, label: 'Sometimes', description: 'About one in ten cards' },
+  { value: 0.25, label: 'Often', description: 'About one in four cards' },
+];
+
+const HALF_LIFE_OPTIONS: Option[] = [
+  { value: 30, label: 'Recent', description: 'Follow what you have been into lately' },
+  { value: DEFAULT_TASTE_HALF_LIFE_DAYS, label: 'Balanced', description: 'Older swipes fade over a few months' },
+  { value: 0, label: 'Everything', description: 'Every swipe counts the same, however old' },
+];
+
+// The option closest to a stored value, so values set elsewhere still show as selected
+const closestOption = (options: Option[], value: number): number =>
+  options.reduce((best, option) => (Math.abs(option.value - value) < Math.abs(best.value - value) ? option : best)).value;
+
+export default function RecommendationSettings() {
+  const { user, updatePreferences } = useAuth();
+  const router = useRouter();
+
+  const [diversity, setDiversity] = useState(
+    closestOption(DIVERSITY_OPTIONS, user?.preferences?.diversity ?? DEFAULT_DIVERSITY)
+  );
+  const [explorationRate, setExplorationRate] = useState(
+    closestOption(EXPLORATION_OPTIONS, user?.preferences?.explorationRate ?? DEFAULT_EXPLORATION_RATE)
+  );
+  const [halfLifeDays, setHalfLifeDays] = useState(
+    closestOption(HALF_LIFE_OPTIONS, user?.preferences?.tasteHalfLifeDays ?? DEFAULT_TASTE_HALF_LIFE_DAYS)
+  );
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await updatePreferences({ diversity, explorationRate, tasteHalfLifeDays: halfLifeDays });
+      router.back();
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const renderOptions = (options: Option[], selected: number, onSelect: (value: number) => void) => (
+    <View style={styles.options}>
+      {options.map(option => {
+        const isSelected = selected === option.value;
+        return (
+          <TouchableOpacity
+            key={option.label}
+            style={[styles.card, isSelected && styles.cardSelected]}
+            activeOpacity={0.8}
+            onPress={() => onSelect(option.value)}
+          >
+            <ThemedText style={[styles.cardLabel, isSelected && styles.cardLabelSelected]}>{option.label}</ThemedText>
+            <ThemedText style={[styles.cardDescription, isSelected && styles.cardLabelSelected]}>
+              {option.description}
+            </ThemedText>
+          </TouchableOpacity>
+        );
+      })}
+    </View>
+  );
+
+  return (
+    <ThemedView style={styles.container}>
+      <ScrollView contentContainerStyle={styles.listContainer}>
+        <ThemedText style={styles.sectionTitle}>Variety</ThemedText>
+        <ThemedText style={styles.sectionSubtitle}>How much your deck mixes genres, movies and shows, decades and languages</ThemedText>
+        {renderOptions(DIVERSITY_OPTIONS, diversity, setDiversity)}
+
+        <ThemedText style={styles.sectionTitle}>Something different</ThemedText>
+        <ThemedText style={styles.sectionSubtitle}>
+          How often to suggest well-rated titles outside your usual taste. This adjusts itself to how you react to them.
+        </ThemedText>
+        {renderOptions(EXPLORATION_OPTIONS, explorationRate, setExplorationRate)}
+
+        <ThemedText style={styles.sectionTitle}>Taste memory</ThemedText>
+        <ThemedText style={styles.sectionSubtitle}>How much recent swipes count compared to older ones</ThemedText>
+        {renderOptions(HALF_LIFE_OPTIONS, halfLifeDays, setHalfLifeDays)}
+      </ScrollView>
+
+      <View style={styles.footer}>
+        <TouchableOpacity
+          onPress={handleSave}
+          style={[styles.saveButton, isSaving && styles.saveButtonDisabled]}
+          disabled={isSaving}
+        >
+          <Text style={styles.saveButtonText}>{isSaving ? 'Saving…' : 'Save'}</Text>
+        </TouchableOpacity>
+      </View>
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  listContainer: {
+    paddingHorizontal: 20,
+    paddingTop: 20,
+    paddingBottom: 20,
+  },
+  sectionTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    marginTop: 8,
+  },
+  sectionSubtitle: {
+    fontSize: 14,
+    opacity: 0.7,
+    marginTop: 4,
+    marginBottom: 12,
+  },
+  options: {
+    marginBottom: 16,
+  },
+  card: {
+    marginBottom: 12,
+    borderWidth: 1,
+    borderColor: '#3A5683', // Secondary color for border
+    borderRadius: 14,
+    padding: 14,
+    backgroundColor: '#FFFFFF', // Tertiary color for background
+  },
+  cardSelected: {
+    backgroundColor: '#3A5683', // Secondary color for selected background
+  },
+  cardLabel: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#000000', // Black text on tertiary background
+  },
+  cardDescription: {
+    fontSize: 13,
+    marginTop: 2,
+    color: '#555555',
+  },
+  cardLabelSelected: {
+    color: '#FFFFFF', // White text when card is selected (secondary background)
+  },
+  footer: {
+    padding: 20,
+  },
+  saveButton: {
+    backgroundColor: '#3A5683', // Secondary color for button
+    borderRadius: 12,
+    padding: 16,
+    alignItems: 'center',
+  },
+  saveButtonDisabled: {
+    backgroundColor: '#9EC6FF',
+  },
+  saveButtonText: {
+    color: '#FFFFFF', // White text on secondary color
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
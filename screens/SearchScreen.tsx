@@ -0,0 +1,578 @@
+/**
+ * SearchScreen Component
+ *
+ * Searches movies, TV shows and people through TMDB's `/search/multi`
+ * endpoint as the user types. Results are grouped by type, load more
+ * pages on scroll, and titles can be added to the watchlist or marked as
+ * seen without leaving the screen. Recent searches are kept per user.
+ *
+ * @author Flicksy Team
+ * @version 1.0.0
+ */
+
+import { Ionicons } from '@expo/vector-icons';
+import { useRouter } from 'expo-router';
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import {
+  ActivityIndicator,
+  Image,
+  SectionList,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { ThemedText } from '../components/ThemedText';
+import { ThemedView } from '../components/ThemedView';
+import { useAuth } from '../contexts/AuthContext';
+import { isConnectivityError } from '../services/apiErrors';
+import { generateInteractionKey, MovieMetadata } from '../services/firebaseDb';
+import {
+  movieApi,
+  MultiSearchMovie,
+  MultiSearchPerson,
+  MultiSearchResult,
+  MultiSearchTVShow,
+} from '../services/movieApi';
+import { addRecentSearch, clearRecentSearches, loadRecentSearches, removeRecentSearch } from '../services/searchHistory';
+import { getTitleFeatures } from '../services/titleFeatures';
+
+const SEARCH_DEBOUNCE_MS = 350; // Wait this long after the last keystroke before searching
+const MIN_QUERY_LENGTH = 2; // Shorter queries are not sent
+
+type TitleResult = MultiSearchMovie | MultiSearchTVShow;
+
+interface SearchSection {
+  title: string;
+  data: MultiSearchResult[];
+}
+
+/**
+ * Extract movie metadata for ML purposes
+ */
+const extractMovieMetadata = (item: TitleResult): MovieMetadata => {
+  const isMovie = item.media_type === 'movie';
+  const releaseDate = isMovie ? item.release_date : item.first_air_date;
+  const releaseYear = releaseDate ? new Date(releaseDate).getFullYear() : 0;
+
+  return {
+    ...getTitleFeatures(item),
+    title: isMovie ? item.title : item.name,
+    releaseYear,
+    popularity: item.popularity || 0,
+  };
+};
+
+interface TitleRowProps {
+  item: TitleResult;
+  inWatchlist: boolean;
+  isSeen: boolean;
+  onToggleWatchlist: (item: TitleResult) => void;
+  onMarkSeen: (item: TitleResult) => void;
+}
+
+const TitleRow: React.FC<TitleRowProps> = ({ item, inWatchlist, isSeen, onToggleWatchlist, onMarkSeen }) => {
+  const isMovie = item.media_type === 'movie';
+  const title = isMovie ? item.title : item.name;
+  const releaseDate = isMovie ? item.release_date : item.first_air_date;
+  const year = releaseDate ? new Date(releaseDate).getFullYear() : 'N/A';
+
+  return (
+    <View style={styles.row}>
+      <Image
+        source={{ uri: movieApi.getImageUrl(item.poster_path, 'w185') }}
+        style={styles.poster}
+        resizeMode="cover"
+      />
+      <View style={styles.rowContent}>
+        <Text style={styles.rowTitle} numberOfLines={2}>{title}</Text>
+        <View style={styles.ratingContainer}>
+          <Ionicons name="star" size={14} color="#FFD700" />
+          <Text style={styles.rating}>{(item.vote_average ?? 0).toFixed(1)}</Text>
+          <Text style={styles.year}>({year})</Text>
+        </View>
+        <Text style={styles.overview} numberOfLines={2}>{item.overview}</Text>
+      </View>
+      <View style={styles.rowActions}>
+        <TouchableOpacity style={styles.actionButton} onPress={() => onToggleWatchlist(item)}>
+          <Ionicons name={inWatchlist ? 'bookmark' : 'bookmark-outline'} size={22} color="#3A5683" />
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.actionButton} onPress={() => onMarkSeen(item)} disabled={isSeen}>
+          <Ionicons name={isSeen ? 'eye' : 'eye-outline'} size={22} color={isSeen ? '#4CAF50' : '#3A5683'} />
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+};
+
+interface PersonRowProps {
+  person: MultiSearchPerson;
+  onPress: (person: MultiSearchPerson) => void;
+}
+
+const PersonRow: React.FC<PersonRowProps> = ({ person, onPress }) => {
+  const knownFor = (person.known_for ?? [])
+    .map(t => (t.media_type === 'movie' ? t.title : t.name))
+    .filter(Boolean)
+    .slice(0, 3)
+    .join(', ');
+
+  return (
+    <TouchableOpacity style={styles.row} onPress={() => onPress(person)}>
+      {person.profile_path ? (
+        <Image
+          source={{ uri: movieApi.getImageUrl(person.profile_path, 'w185') }}
+          style={styles.avatar}
+          resizeMode="cover"
+        />
+      ) : (
+        <View style={[styles.avatar, styles.avatarPlaceholder]}>
+          <Ionicons name="person" size={28} color="#999" />
+        </View>
+      )}
+      <View style={styles.rowContent}>
+        <Text style={styles.rowTitle} numberOfLines={1}>{person.name}</Text>
+        {person.known_for_department ? (
+          <Text style={styles.department}>{person.known_for_department}</Text>
+        ) : null}
+        {knownFor ? <Text style={styles.overview} numberOfLines={2}>Known for {knownFor}</Text> : null}
+      </View>
+      <Ionicons name="chevron-forward" size={20} color="#999" />
+    </TouchableOpacity>
+  );
+};
+
+export default function SearchScreen() {
+  const { user, updatePreferences, recordMovieInteraction } = useAuth();
+  const router = useRouter();
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<MultiSearchResult[]>([]);
+  const [page, setPage] = useState(0); // Last page loaded for the current query
+  const [totalPages, setTotalPages] = useState(0);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [recentSearches, setRecentSearches] = useState<string[]>([]);
+  const activeQueryRef = useRef(''); // Query the current results belong to; stale responses are dropped
+
+  useEffect(() => {
+    if (!user) return;
+    loadRecentSearches(user.id).then(setRecentSearches);
+  }, [user?.id]);
+
+  /**
+   * Fetch a page of results for a query and merge it into the list
+   */
+  const fetchPage = useCallback(async (searchQuery: string, pageToLoad: number) => {
+    try {
+      const response = await movieApi.searchMulti(searchQuery, pageToLoad);
+      if (activeQueryRef.current !== searchQuery) return;
+
+      setResults(prev => {
+        const base = pageToLoad === 1 ? [] : prev;
+        const seen = new Set(base.map(r => `${r.media_type}:${r.id}`));
+        const fresh = response.results.filter(r => !seen.has(`${r.media_type}:${r.id}`));
+        return [...base, ...fresh];
+      });
+      setPage(response.page);
+      setTotalPages(response.total_pages);
+      setError(null);
+    } catch (err) {
+      if (activeQueryRef.current !== searchQuery) return;
+      console.error('Error searching:', err);
+      setError(isConnectivityError(err)
+        ? 'Could not reach the movie database. Check your connection.'
+        : 'Search failed. Please try again.');
+    }
+  }, []);
+
+  // Debounced search as the user types
+  useEffect(() => {
+    const trimmed = query.trim();
+    activeQueryRef.current = trimmed;
+
+    if (trimmed.length < MIN_QUERY_LENGTH) {
+      setResults([]);
+      setPage(0);
+      setTotalPages(0);
+      setError(null);
+      setIsLoading(false);
+      return;
+    }
+
+    setIsLoading(true);
+    const timer = setTimeout(async () => {
+      await fetchPage(trimmed, 1);
+      if (activeQueryRef.current === trimmed) setIsLoading(false);
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => clearTimeout(timer);
+  }, [query, fetchPage]);
+
+  const loadMore = async () => {
+    const currentQuery = activeQueryRef.current;
+    if (isLoading || isLoadingMore || page === 0 || page >= totalPages) return;
+    setIsLoadingMore(true);
+    await fetchPage(currentQuery, page + 1);
+    setIsLoadingMore(false);
+  };
+
+  const rememberQuery = async (searchQuery: string) => {
+    if (!user || searchQuery.trim().length < MIN_QUERY_LENGTH) return;
+    setRecentSearches(await addRecentSearch(user.id, searchQuery));
+  };
+
+  const handleRemoveRecent = async (searchQuery: string) => {
+    if (!user) return;
+    setRecentSearches(await removeRecentSearch(user.id, searchQuery));
+  };
+
+  const handleClearRecent = async () => {
+    if (!user) return;
+    await clearRecentSearches(user.id);
+    setRecentSearches([]);
+  };
+
+  const watchlistKeys = useMemo(() => new Set(user?.preferences.watchlist ?? []), [user?.preferences.watchlist]);
+  const seenKeys = useMemo(() => new Set(user?.preferences.seen ?? []), [user?.preferences.seen]);
+
+  const toggleWatchlist = async (item: TitleResult) => {
+    if (!user) return;
+    rememberQuery(query);
+
+    const key = generateInteractionKey(item.id, item.media_type === 'movie');
+    const watchlist = user.preferences.watchlist ?? [];
+    if (watchlistKeys.has(key)) {
+      await updatePreferences({ watchlist: watchlist.filter(k => k !== key) });
+      return;
+    }
+
+    await updatePreferences({ watchlist: [...watchlist, key] });
+    try {
+      await recordMovieInteraction(item.id, 'watchlisted', extractMovieMetadata(item));
+    } catch (err) {
+      console.error('Error recording watchlisted interaction:', err);
+    }
+  };
+
+  const markSeen = async (item: TitleResult) => {
+    const key = generateInteractionKey(item.id, item.media_type === 'movie');
+    if (!user || seenKeys.has(key)) return;
+    rememberQuery(query);
+
+    const seen = new Set(user.preferences.seen ?? []);
+    seen.add(key);
+    await updatePreferences({ seen: Array.from(seen) });
+    try {
+      await recordMovieInteraction(item.id, 'seen', extractMovieMetadata(item));
+    } catch (err) {
+      console.error('Error recording seen interaction:', err);
+    }
+  };
+
+  const openPerson = (person: MultiSearchPerson) => {
+    rememberQuery(query);
+    router.push({ pathname: '/person/[id]', params: { id: String(person.id), name: person.name } });
+  };
+
+  const sections = useMemo<SearchSection[]>(() => {
+    const movies = results.filter(r => r.media_type === 'movie');
+    const shows = results.filter(r => r.media_type === 'tv');
+    const people = results.filter(r => r.media_type === 'person');
+    return [
+      { title: 'Movies', data: movies },
+      { title: 'TV Shows', data: shows },
+      { title: 'People', data: people },
+    ].filter(section => section.data.length > 0);
+  }, [results]);
+
+  const renderItem = ({ item }: { item: MultiSearchResult }) => {
+    if (item.media_type === 'person') {
+      return <PersonRow person={item} onPress={openPerson} />;
+    }
+    return (
+      <TitleRow
+        item={item}
+        inWatchlist={watchlistKeys.has(generateInteractionKey(item.id, item.media_type === 'movie'))}
+        isSeen={seenKeys.has(generateInteractionKey(item.id, item.media_type === 'movie'))}
+        onToggleWatchlist={toggleWatchlist}
+        onMarkSeen={markSeen}
+      />
+    );
+  };
+
+  const renderRecentSearches = () => {
+    if (recentSearches.length === 0) {
+      return (
+        <View style={styles.emptyContainer}>
+          <Ionicons name="search" size={64} color="#999" />
+          <ThemedText style={styles.emptyTitle}>Search Flicksy</ThemedText>
+          <ThemedText style={styles.emptySubtitle}>Find movies, TV shows and people.</ThemedText>
+        </View>
+      );
+    }
+
+    return (
+      <View style={styles.recentContainer}>
+        <View style={styles.recentHeader}>
+          <Text style={styles.sectionTitle}>Recent searches</Text>
+          <TouchableOpacity onPress={handleClearRecent}>
+            <Text style={styles.clearText}>Clear</Text>
+          </TouchableOpacity>
+        </View>
+        {recentSearches.map(recent => (
+          <View key={recent} style={styles.recentRow}>
+            <TouchableOpacity style={styles.recentQuery} onPress={() => setQuery(recent)}>
+              <Ionicons name="time-outline" size={18} color="#666" />
+              <Text style={styles.recentText} numberOfLines={1}>{recent}</Text>
+            </TouchableOpacity>
+            <TouchableOpacity onPress={() => handleRemoveRecent(recent)}>
+              <Ionicons name="close" size={18} color="#999" />
+            </TouchableOpacity>
+          </View>
+        ))}
+      </View>
+    );
+  };
+
+  const renderBody = () => {
+    if (query.trim().length < MIN_QUERY_LENGTH) {
+      return renderRecentSearches();
+    }
+    if (isLoading) {
+      return (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color="#3A5683" />
+        </View>
+      );
+    }
+    if (error && results.length === 0) {
+      return (
+        <View style={styles.emptyContainer}>
+          <Ionicons name="cloud-offline-outline" size={64} color="#999" />
+          <ThemedText style={styles.emptySubtitle}>{error}</ThemedText>
+        </View>
+      );
+    }
+    if (sections.length === 0) {
+      return (
+        <View style={styles.emptyContainer}>
+          <Ionicons name="search" size={64} color="#999" />
+          <ThemedText style={styles.emptyTitle}>No results</ThemedText>
+          <ThemedText style={styles.emptySubtitle}>Try a different title or name.</ThemedText>
+        </View>
+      );
+    }
+
+    return (
+      <SectionList
+        sections={sections}
+        renderItem={renderItem}
+        renderSectionHeader={({ section }) => <Text style={styles.sectionTitle}>{section.title}</Text>}
+        keyExtractor={item => `${item.media_type}:${item.id}`}
+        contentContainerStyle={styles.listContainer}
+        onEndReached={loadMore}
+        onEndReachedThreshold={0.5}
+        keyboardShouldPersistTaps="handled"
+        stickySectionHeadersEnabled={false}
+        ListFooterComponent={isLoadingMore ? <ActivityIndicator style={styles.footer} color="#3A5683" /> : null}
+        showsVerticalScrollIndicator={false}
+      />
+    );
+  };
+
+  return (
+    <ThemedView style={styles.container}>
+      <View style={styles.header}>
+        <View style={styles.searchBar}>
+          <Ionicons name="search" size={20} color="#666" />
+          <TextInput
+            style={styles.searchInput}
+            value={query}
+            onChangeText={setQuery}
+            onSubmitEditing={() => rememberQuery(query)}
+            placeholder="Movies, TV shows and people"
+            placeholderTextColor="#999"
+            autoCorrect={false}
+            returnKeyType="search"
+            clearButtonMode="never"
+          />
+          {query.length > 0 && (
+            <TouchableOpacity onPress={() => setQuery('')}>
+              <Ionicons name="close-circle" size={20} color="#999" />
+            </TouchableOpacity>
+          )}
+        </View>
+      </View>
+      {renderBody()}
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    paddingHorizontal: 20,
+    paddingTop: 60,
+    paddingBottom: 12,
+  },
+  searchBar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    borderRadius: 12,
+    backgroundColor: '#f7f7f7',
+    borderWidth: 1,
+    borderColor: '#ccc',
+  },
+  searchInput: {
+    flex: 1,
+    fontSize: 16,
+    color: '#000000',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  listContainer: {
+    paddingHorizontal: 20,
+    paddingBottom: 100,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#3A5683', // Secondary color for section headers
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    padding: 10,
+    marginBottom: 10,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.1,
+    shadowRadius: 3,
+    elevation: 2,
+  },
+  poster: {
+    width: 56,
+    height: 84,
+    borderRadius: 6,
+    backgroundColor: '#eee',
+  },
+  avatar: {
+    width: 56,
+    height: 56,
+    borderRadius: 28,
+    backgroundColor: '#eee',
+  },
+  avatarPlaceholder: {
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  rowContent: {
+    flex: 1,
+    marginLeft: 12,
+  },
+  rowTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#000000',
+    marginBottom: 4,
+  },
+  ratingContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    marginBottom: 4,
+  },
+  rating: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#000000',
+  },
+  year: {
+    fontSize: 13,
+    color: '#666',
+  },
+  department: {
+    fontSize: 13,
+    color: '#666',
+    marginBottom: 4,
+  },
+  overview: {
+    fontSize: 13,
+    color: '#444',
+  },
+  rowActions: {
+    marginLeft: 8,
+    gap: 8,
+  },
+  actionButton: {
+    padding: 4,
+  },
+  footer: {
+    marginVertical: 16,
+  },
+  recentContainer: {
+    paddingHorizontal: 20,
+  },
+  recentHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  clearText: {
+    color: '#3A5683',
+    fontWeight: '600',
+    marginTop: 8,
+  },
+  recentRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: '#ddd',
+  },
+  recentQuery: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  recentText: {
+    fontSize: 16,
+    color: '#000000',
+  },
+  emptyContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: 40,
+    paddingBottom: 100,
+  },
+  emptyTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    marginTop: 16,
+    marginBottom: 8,
+    textAlign: 'center',
+  },
+  emptySubtitle: {
+    fontSize: 16,
+    color: '#666',
+    textAlign: 'center',
+    marginTop: 8,
+  },
+});
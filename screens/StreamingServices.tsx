@@ -10,19 +10,9 @@ import { ScrollView, StyleSheet, Text, TouchableOpacity, View } from 'react-nati
 import { useRouter } from 'expo-router';
 import { ThemedText } from '../components/ThemedText';
 import { ThemedView } from '../components/ThemedView';
+import { ALL_SERVICES } from '../constants/StreamingServices';
 import { useAuth } from '../contexts/AuthContext';
 
-type ServiceKey = 'Netflix' | 'Viaplay' | 'Disney+' | 'Prime Video' | 'HBO Max' | 'Apple TV';
-
-const ALL_SERVICES: { key: ServiceKey; label: string }[] = [
-  { key: 'Netflix', label: 'Netflix' },
-  { key: 'Viaplay', label: 'Viaplay' },
-  { key: 'Disney+', label: 'Disney+' },
-  { key: 'Prime Video', label: 'Prime Video' },
-  { key: 'HBO Max', label: 'HBO Max' },
-  { key: 'Apple TV', label: 'Apple TV' },
-];
-
 export default function StreamingServices() {
   const { user, updatePreferences } = useAuth();
   const router = useRouter();
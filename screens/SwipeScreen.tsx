@@ -8,26 +8,38 @@
  * - Infinite scroll with automatic loading
  * - Recommendation system integration
  * - User preference tracking
+ * - Offline support from a locally persisted deck buffer
+ * - "My services" mode showing only titles on the user's streaming services
  * 
  * @author Flicksy Team
  * @version 2.0.0 - Simplified and stable version
  */
 
 import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { Ionicons } from '@expo/vector-icons';
 import {
     ActivityIndicator,
     Alert,
     Dimensions,
     StyleSheet,
+    Text,
+    TouchableOpacity,
     View
 } from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import MovieCard from '../components/MovieCard';
 import { ThemedText } from '../components/ThemedText';
 import { ThemedView } from '../components/ThemedView';
+import { DEFAULT_REGION, getProviderIdsForServices } from '../constants/StreamingServices';
 import { useAuth } from '../contexts/AuthContext';
-import { MovieMetadata } from '../services/firebaseDb';
+import { useConnectivity } from '../hooks/useConnectivity';
+import { isConnectivityError, TMDBAuthError } from '../services/apiErrors';
+import { connectivityService } from '../services/connectivityService';
+import { loadDeckBuffer, saveDeckBuffer } from '../services/deckBuffer';
+import { getContentKey, InteractionKey, MovieMetadata, parseInteractionKey } from '../services/firebaseDb';
 import { Movie, movieApi, TVShow } from '../services/movieApi';
-import { recommendationService } from '../services/recommendationService';
+import { RecommendationExplanation, recommendationService } from '../services/recommendationService';
+import { getTitleFeatures } from '../services/titleFeatures';
 
 // Screen dimensions for responsive design
 const { width: screenWidth, height: screenHeight } = Dimensions.get('window');
@@ -39,31 +51,35 @@ export default function SwipeScreen(): React.ReactElement {
   // ==================== HOOKS AND STATE ====================
   
   const { user, updatePreferences, recordMovieInteraction } = useAuth();
+  const isOnline = useConnectivity();
+  const insets = useSafeAreaInsets();
+  const onlyMyServices = !!user?.preferences?.onlyMyServices;
   
   // Core state - simplified
   const [allCards, setAllCards] = useState<(Movie | TVShow)[]>([]);
   const [cardStack, setCardStack] = useState<(Movie | TVShow)[]>([]);
   const [isLoading, setIsLoading] = useState(true);
-  const [swipedCardIds, setSwipedCardIds] = useState<Set<number>>(new Set());
-  const [recentlyShownIds, setRecentlyShownIds] = useState<Set<number>>(new Set());
+  const [swipedCardKeys, setSwipedCardKeys] = useState<Set<InteractionKey>>(new Set());
+  const [recentlyShownKeys, setRecentlyShownKeys] = useState<Set<InteractionKey>>(new Set());
   
   // Refs to prevent infinite loops
   const isLoadingRef = useRef(false);
   const hasInitializedRef = useRef(false);
+  const wasOnlineRef = useRef(isOnline);
+  const providerPageRef = useRef(1); // Next discover page to fetch in "My services" mode
+  const previousOnlyMyServicesRef = useRef(onlyMyServices);
+  const rebuildPendingRef = useRef(false); // Deck rebuild requested while a load was running
+  const rebuildDeckRef = useRef<() => void>(() => {}); // Latest rebuildDeck, for loads started before a re-render
+  const hasCleanedPreferencesRef = useRef(false); // Saved titles are validated once per session
+  const explanationsRef = useRef<Map<InteractionKey, RecommendationExplanation>>(new Map()); // Why each loaded card is shown
+  const runtimesRef = useRef<Map<InteractionKey, number>>(new Map()); // Runtimes looked up for cards that reached the top
 
   // ==================== UTILITY FUNCTIONS ====================
   
-  const shuffleArray = (array: any[]): any[] => {
-    const shuffled = [...array];
-    for (let i = shuffled.length - 1; i > 0; i--) {
-      const j = Math.floor(Math.random() * (i + 1));
-      [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
-    }
-    return shuffled;
-  };
-
   const cleanupInvalidUserPreferences = async () => {
     if (!user || !user.preferences) return;
+    // Validation needs the network; don't spend retries on it while offline
+    if (!connectivityService.isOnline() || hasCleanedPreferencesRef.current) return;
     
     try {
       console.log('Cleaning up invalid user preferences...');
@@ -72,9 +88,14 @@ export default function SwipeScreen(): React.ReactElement {
       const dislikedMovies = user.preferences.dislikedMovies || [];
       const watchlist = user.preferences.watchlist || [];
       
-      const validLikedMovies = await movieApi.filterValidIds(likedMovies);
-      const validDislikedMovies = await movieApi.filterValidIds(dislikedMovies);
-      const validWatchlist = await movieApi.filterValidIds(watchlist);
+      const filterValidKeys = async (keys: InteractionKey[]): Promise<InteractionKey[]> => {
+        const items = keys.map(key => ({ key, ...parseInteractionKey(key) }));
+        return (await movieApi.filterValidContent(items)).map(item => item.key);
+      };
+      
+      const validLikedMovies = await filterValidKeys(likedMovies);
+      const validDislikedMovies = await filterValidKeys(dislikedMovies);
+      const validWatchlist = await filterValidKeys(watchlist);
       
       const invalidLikedMovies = likedMovies.filter(id => !validLikedMovies.includes(id));
       const invalidDislikedMovies = dislikedMovies.filter(id => !validDislikedMovies.includes(id));
@@ -91,6 +112,7 @@ export default function SwipeScreen(): React.ReactElement {
         
         console.log('User preferences cleaned up successfully');
       }
+      hasCleanedPreferencesRef.current = true;
     } catch (error) {
       console.error('Error cleaning up user preferences:', error);
     }
@@ -105,16 +127,72 @@ export default function SwipeScreen(): React.ReactElement {
     const isMovie = 'title' in item;
     const releaseDate = isMovie ? item.release_date : item.first_air_date;
     const releaseYear = releaseDate ? new Date(releaseDate).getFullYear() : 0;
+    const runtime = runtimesRef.current.get(getContentKey(item));
     
     return {
+      ...getTitleFeatures(item),
+      ...(runtime && { runtime }),
       title: isMovie ? item.title : item.name,
-      genres: item.genre_ids || [],
       releaseYear,
       popularity: item.popularity || 0,
-      isMovie
     };
   };
   
+  /**
+   * Load cards streaming on the user's selected services
+   * 
+   * Results come from TMDB discover filtered by provider, then ordered by the
+   * recommendation score so personalization still applies within the filter.
+   */
+  const loadCardsOnMyServices = async (pageCount: number): Promise<(Movie | TVShow)[]> => {
+    if (!user) return [];
+    
+    const region = user.preferences.region || DEFAULT_REGION;
+    const providerIds = getProviderIdsForServices(user.preferences.streamingServices || [], region);
+    const pages: number[] = [];
+    for (let i = 0; i < pageCount; i++) {
+      pages.push(providerPageRef.current++);
+    }
+    
+    const results = await Promise.all(pages.map(page => movieApi.getContentOnProviders(providerIds, region, page)));
+    const cards = results
+      .flat()
+      .filter(card => !swipedCardKeys.has(getContentKey(card)))
+      .sort((a, b) => recommendationService.scoreContent(b) - recommendationService.scoreContent(a));
+    
+    // Every card here is on one of the user's services; the card names which one
+    const { genreNames, languageNames } = await recommendationService.loadExplanationContext([]);
+    for (const card of cards) {
+      explanationsRef.current.set(
+        getContentKey(card),
+        recommendationService.explainContent(card, [{ source: 'popular' }], undefined, genreNames, languageNames)
+      );
+    }
+    return cards;
+  };
+  
+  /**
+   * Load personalized recommendations and remember why each one was picked
+   */
+  const loadRecommendedCards = async (limit: number): Promise<(Movie | TVShow)[]> => {
+    if (!user) return [];
+    
+    try {
+      const scored = await recommendationService.getRecommendationCandidates(
+        user.preferences,
+        limit,
+        Array.from(swipedCardKeys)
+      );
+      for (const candidate of scored) {
+        explanationsRef.current.set(candidate.key, candidate.explanation);
+      }
+      return scored.map(candidate => candidate.item);
+    } catch (error) {
+      console.error('Error getting personalized recommendations:', error);
+      return [];
+    }
+  };
+  
   const loadInitialCards = async () => {
     if (isLoadingRef.current) return;
     
@@ -127,15 +205,17 @@ export default function SwipeScreen(): React.ReactElement {
       
       let initialCards: (Movie | TVShow)[] = [];
       
-      if (user && user.preferences && (user.preferences.likedMovies?.length > 0 || user.preferences.genres?.length > 0)) {
+      if (user && !connectivityService.isOnline()) {
+        console.log('📴 Offline, loading saved deck...');
+        initialCards = await loadDeckBuffer(user.id);
+      } else if (user && user.preferences?.onlyMyServices) {
+        console.log('📺 Loading titles on the user\'s streaming services...');
+        providerPageRef.current = 1;
+        initialCards = await loadCardsOnMyServices(3);
+      } else if (user && user.preferences && (user.preferences.likedMovies?.length > 0 || user.preferences.genres?.length > 0)) {
         console.log('🎯 Loading personalized recommendations...');
         await cleanupInvalidUserPreferences();
-        const swipedIdsArray = Array.from(swipedCardIds);
-        initialCards = await recommendationService.getPersonalizedRecommendations(
-          user.preferences,
-          50,
-          swipedIdsArray
-        );
+        initialCards = await loadRecommendedCards(50);
       } else {
         console.log('🎬 Loading general content...');
         const [page1, page2, page3] = await Promise.all([
@@ -144,44 +224,54 @@ export default function SwipeScreen(): React.ReactElement {
           movieApi.getMixedContent(3)
         ]);
         const allContent = [...page1, ...page2, ...page3];
-        const swipedIdsArray = Array.from(swipedCardIds);
-        initialCards = allContent.filter(card => !swipedIdsArray.includes(card.id));
+        initialCards = allContent.filter(card => !swipedCardKeys.has(getContentKey(card)));
+      }
+      
+      // Fall back to the saved deck if the network gave us nothing
+      if (initialCards.length === 0 && user) {
+        initialCards = await loadDeckBuffer(user.id);
       }
       
       console.log(`📦 Loaded ${initialCards.length} cards`);
       
-      const shuffledCards = shuffleArray(initialCards);
-      setAllCards(shuffledCards);
-      setCardStack(shuffledCards.slice(0, 5));
+      // Cards arrive already ordered (recommendations are ranked, general content is mixed)
+      setAllCards(initialCards);
+      setCardStack(initialCards.slice(0, 5));
       
-      console.log(`🎴 Set card stack with ${shuffledCards.slice(0, 5).length} cards`);
+      console.log(`🎴 Set card stack with ${initialCards.slice(0, 5).length} cards`);
       
     } catch (error) {
       console.error('❌ Error loading initial cards:', error);
-      Alert.alert('Error', 'Failed to load movies and TV shows');
+      if (isConnectivityError(error)) {
+        Alert.alert('Offline', 'Could not reach the movie database. Check your connection and try again.');
+      } else if (error instanceof TMDBAuthError) {
+        Alert.alert('Configuration error', 'The movie database rejected our API key.');
+      } else {
+        Alert.alert('Error', 'Failed to load movies and TV shows');
+      }
     } finally {
       setIsLoading(false);
       isLoadingRef.current = false;
       console.log('✅ Finished loading initial cards');
+      runPendingRebuild();
     }
   };
 
   const loadMoreCards = async () => {
     if (isLoadingRef.current) return;
+    // Keep swiping through the saved deck until the connection returns
+    if (!connectivityService.isOnline()) return;
     
     try {
       isLoadingRef.current = true;
       
       let newCards: (Movie | TVShow)[] = [];
       
-      if (user && user.preferences && (user.preferences.likedMovies?.length > 0 || user.preferences.genres?.length > 0)) {
+      if (user && user.preferences?.onlyMyServices) {
+        newCards = await loadCardsOnMyServices(2);
+      } else if (user && user.preferences && (user.preferences.likedMovies?.length > 0 || user.preferences.genres?.length > 0)) {
         await cleanupInvalidUserPreferences();
-        const swipedIdsArray = Array.from(swipedCardIds);
-        newCards = await recommendationService.getPersonalizedRecommendations(
-          user.preferences,
-          30,
-          swipedIdsArray
-        );
+        newCards = await loadRecommendedCards(30);
       } else {
         const currentPage = Math.floor(allCards.length / 20) + 1;
         const [page1, page2] = await Promise.all([
@@ -189,41 +279,64 @@ export default function SwipeScreen(): React.ReactElement {
           movieApi.getMixedContent(currentPage + 1)
         ]);
         const allNewContent = [...page1, ...page2];
-        const swipedIdsArray = Array.from(swipedCardIds);
-        newCards = allNewContent.filter(card => !swipedIdsArray.includes(card.id));
+        newCards = allNewContent.filter(card => !swipedCardKeys.has(getContentKey(card)));
       }
       
-      const filteredNewCards = newCards.filter(card => !recentlyShownIds.has(card.id));
-      const shuffledNewCards = shuffleArray(filteredNewCards);
+      const filteredNewCards = newCards.filter(card => !recentlyShownKeys.has(getContentKey(card)));
       
-      setAllCards(prev => [...prev, ...shuffledNewCards]);
-      console.log(`Loaded ${shuffledNewCards.length} new cards`);
+      setAllCards(prev => [...prev, ...filteredNewCards]);
+      console.log(`Loaded ${filteredNewCards.length} new cards`);
       
     } catch (error) {
       console.error('Error loading more cards:', error);
     } finally {
       isLoadingRef.current = false;
+      runPendingRebuild();
     }
   };
 
+  /**
+   * Start over with a fresh deck
+   * 
+   * A load that is already running would be skipped or would fill the new
+   * deck with stale cards, so the rebuild waits until it finishes.
+   */
+  const rebuildDeck = () => {
+    if (isLoadingRef.current) {
+      rebuildPendingRef.current = true;
+      return;
+    }
+    setRecentlyShownKeys(new Set());
+    setAllCards([]);
+    setCardStack([]);
+    loadInitialCards();
+  };
+  rebuildDeckRef.current = rebuildDeck;
+
+  // Run a rebuild requested while a load was running, with the latest preferences
+  const runPendingRebuild = () => {
+    if (!rebuildPendingRef.current) return;
+    rebuildPendingRef.current = false;
+    rebuildDeckRef.current();
+  };
+
   const refillCardStack = useCallback(() => {
     setCardStack(prevStack => {
       if (prevStack.length >= 5) return prevStack;
       
       const availableCards = allCards.filter(card => 
-        !swipedCardIds.has(card.id) && !recentlyShownIds.has(card.id)
+        !swipedCardKeys.has(getContentKey(card)) && !recentlyShownKeys.has(getContentKey(card))
       );
       const cardsNotInStack = availableCards.filter(card => 
-        !prevStack.some(stackCard => stackCard.id === card.id)
+        !prevStack.some(stackCard => getContentKey(stackCard) === getContentKey(card))
       );
       
       if (cardsNotInStack.length > 0) {
-        const shuffledCards = shuffleArray(cardsNotInStack);
-        const cardsToAdd = shuffledCards.slice(0, 5 - prevStack.length);
+        const cardsToAdd = cardsNotInStack.slice(0, 5 - prevStack.length);
         
-        setRecentlyShownIds(prev => {
+        setRecentlyShownKeys(prev => {
           const newSet = new Set(prev);
-          cardsToAdd.forEach(card => newSet.add(card.id));
+          cardsToAdd.forEach(card => newSet.add(getContentKey(card)));
           return newSet;
         });
         
@@ -235,32 +348,31 @@ export default function SwipeScreen(): React.ReactElement {
       
       return prevStack;
     });
-  }, [allCards, swipedCardIds, recentlyShownIds]);
+  }, [allCards, swipedCardKeys, recentlyShownKeys]);
 
   const moveToNextCard = useCallback(() => {
     setCardStack(prevStack => {
       const newStack = prevStack.slice(1);
       
       const availableCards = allCards.filter(card => 
-        !swipedCardIds.has(card.id) && !recentlyShownIds.has(card.id)
+        !swipedCardKeys.has(getContentKey(card)) && !recentlyShownKeys.has(getContentKey(card))
       );
       const cardsNotInStack = availableCards.filter(card => 
-        !newStack.some(stackCard => stackCard.id === card.id)
+        !newStack.some(stackCard => getContentKey(stackCard) === getContentKey(card))
       );
       
       if (cardsNotInStack.length > 0) {
-        const shuffledCards = shuffleArray(cardsNotInStack);
-        const nextCard = shuffledCards[0];
+        const nextCard = cardsNotInStack[0];
         newStack.push(nextCard);
         
-        setRecentlyShownIds(prev => new Set([...prev, nextCard.id]));
+        setRecentlyShownKeys(prev => new Set([...prev, getContentKey(nextCard)]));
       } else if (allCards.length > 0) {
         loadMoreCards();
       }
       
       return newStack;
     });
-  }, [allCards, swipedCardIds, recentlyShownIds]);
+  }, [allCards, swipedCardKeys, recentlyShownKeys]);
 
   // ==================== EFFECTS ====================
   
@@ -282,10 +394,47 @@ export default function SwipeScreen(): React.ReactElement {
     }
   }, [cardStack.length, allCards.length, isLoading, refillCardStack]);
 
+  // Persist the unswiped cards so the deck survives restarts without a connection
+  useEffect(() => {
+    if (!user || isLoading || allCards.length === 0) return;
+    const remaining = allCards.filter(card => !swipedCardKeys.has(getContentKey(card)));
+    saveDeckBuffer(user.id, remaining);
+  }, [user?.id, isLoading, allCards, swipedCardKeys]);
+
+  // Top up the deck when the connection comes back
+  useEffect(() => {
+    if (isOnline && !wasOnlineRef.current && hasInitializedRef.current) {
+      loadMoreCards();
+    }
+    wasOnlineRef.current = isOnline;
+  }, [isOnline]);
+
+  // Rebuild the deck when the user switches between all titles and their services
+  useEffect(() => {
+    if (previousOnlyMyServicesRef.current === onlyMyServices) return;
+    previousOnlyMyServicesRef.current = onlyMyServices;
+    rebuildDeck();
+  }, [onlyMyServices]);
+
+  // List responses have no runtimes, so look up the top card's once it's shown; the card's back face reuses the cached details
+  const topCard = cardStack[0];
+  useEffect(() => {
+    if (!topCard || getTitleFeatures(topCard).runtime) return;
+    const key = getContentKey(topCard);
+    if (runtimesRef.current.has(key)) return;
+    const { id, isMovie } = parseInteractionKey(key);
+    (isMovie ? movieApi.getMovieDetails(id) : movieApi.getTVShowDetails(id))
+      .then(details => {
+        const runtime = movieApi.getRuntime(details);
+        if (runtime) runtimesRef.current.set(key, runtime);
+      })
+      .catch(error => console.warn(`Could not load runtime for ${key}:`, error));
+  }, [topCard]);
+
   // Clear recently shown cards periodically
   useEffect(() => {
     const interval = setInterval(() => {
-      setRecentlyShownIds(prev => {
+      setRecentlyShownKeys(prev => {
         const recentArray = Array.from(prev);
         if (recentArray.length > 20) {
           const keepRecent = recentArray.slice(-20);
@@ -303,10 +452,10 @@ export default function SwipeScreen(): React.ReactElement {
   const handleSwipeLeft = useCallback(async (item: Movie | TVShow) => {
     console.log('handleSwipeLeft called with:', 'title' in item ? item.title : item.name);
     
-    setSwipedCardIds(prev => new Set([...prev, item.id]));
+    setSwipedCardKeys(prev => new Set([...prev, getContentKey(item)]));
     
     if (user && user.preferences) {
-      const updatedDisliked = [...(user.preferences.dislikedMovies || []), item.id];
+      const updatedDisliked = [...(user.preferences.dislikedMovies || []), getContentKey(item)];
       await updatePreferences({ dislikedMovies: updatedDisliked });
       
       // Record interaction for ML
@@ -321,20 +470,20 @@ export default function SwipeScreen(): React.ReactElement {
     moveToNextCard();
     
     // Load more cards if running low
-    const availableCards = allCards.filter(card => !swipedCardIds.has(card.id));
+    const availableCards = allCards.filter(card => !swipedCardKeys.has(getContentKey(card)));
     if (availableCards.length < 15) {
       loadMoreCards();
     }
-  }, [user, updatePreferences, recordMovieInteraction, moveToNextCard, allCards, swipedCardIds]);
+  }, [user, updatePreferences, recordMovieInteraction, moveToNextCard, allCards, swipedCardKeys]);
 
   const handleSwipeRight = useCallback(async (item: Movie | TVShow) => {
     console.log('handleSwipeRight called with:', 'title' in item ? item.title : item.name);
     
-    setSwipedCardIds(prev => new Set([...prev, item.id]));
+    setSwipedCardKeys(prev => new Set([...prev, getContentKey(item)]));
     
     if (user && user.preferences) {
-      const updatedLiked = [...(user.preferences.likedMovies || []), item.id];
-      const updatedWatchlist = [...(user.preferences.watchlist || []), item.id];
+      const updatedLiked = [...(user.preferences.likedMovies || []), getContentKey(item)];
+      const updatedWatchlist = [...(user.preferences.watchlist || []), getContentKey(item)];
       await updatePreferences({ 
         likedMovies: updatedLiked,
         watchlist: updatedWatchlist 
@@ -353,15 +502,24 @@ export default function SwipeScreen(): React.ReactElement {
     moveToNextCard();
     
     // Load more cards if running low
-    const availableCards = allCards.filter(card => !swipedCardIds.has(card.id));
+    const availableCards = allCards.filter(card => !swipedCardKeys.has(getContentKey(card)));
     if (availableCards.length < 15) {
       loadMoreCards();
     }
-  }, [user, updatePreferences, recordMovieInteraction, moveToNextCard, allCards, swipedCardIds]);
+  }, [user, updatePreferences, recordMovieInteraction, moveToNextCard, allCards, swipedCardKeys]);
+
+  const toggleOnlyMyServices = useCallback(async () => {
+    if (!user) return;
+    if (!onlyMyServices && (user.preferences.streamingServices || []).length === 0) {
+      Alert.alert('No services selected', 'Pick your streaming services under Profile → Preferences first.');
+      return;
+    }
+    await updatePreferences({ onlyMyServices: !onlyMyServices });
+  }, [user, onlyMyServices, updatePreferences]);
 
   const handleRefresh = useCallback(() => {
-    setSwipedCardIds(new Set());
-    setRecentlyShownIds(new Set());
+    setSwipedCardKeys(new Set());
+    setRecentlyShownKeys(new Set());
     setAllCards([]);
     setCardStack([]);
     hasInitializedRef.current = false;
@@ -397,6 +555,13 @@ export default function SwipeScreen(): React.ReactElement {
 
   return (
     <ThemedView style={styles.container}>
+      <TouchableOpacity
+        style={[styles.modeToggle, { top: insets.top + 10 }, onlyMyServices && styles.modeToggleActive]}
+        onPress={toggleOnlyMyServices}
+      >
+        <Ionicons name={onlyMyServices ? 'tv' : 'tv-outline'} size={14} color="#FFFFFF" />
+        <Text style={styles.modeToggleText}>{onlyMyServices ? 'My services' : 'All titles'}</Text>
+      </TouchableOpacity>
       <View style={styles.cardContainer}>
         {cardStack.map((card, index) => {
           const isTopCard = index === 0;
@@ -407,8 +572,9 @@ export default function SwipeScreen(): React.ReactElement {
           
           return (
             <MovieCard
-              key={card.id}
+              key={getContentKey(card)}
               item={card}
+              explanation={explanationsRef.current.get(getContentKey(card))}
               onSwipeLeft={() => handleSwipeLeft(card)}
               onSwipeRight={() => handleSwipeRight(card)}
               isTopCard={isTopCard}
@@ -483,6 +649,26 @@ const styles = StyleSheet.create({
     fontSize: 16,
     fontWeight: '600',
   },
+  modeToggle: {
+    position: 'absolute',
+    left: 14,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 12,
+    backgroundColor: 'rgba(0,0,0,0.35)',
+    zIndex: 10,
+  },
+  modeToggleActive: {
+    backgroundColor: '#3A5683', // Secondary color when filtering by services
+  },
+  modeToggleText: {
+    color: '#FFFFFF',
+    fontSize: 11,
+    fontWeight: '600',
+  },
   cardContainer: {
     flex: 1,
     justifyContent: 'center',
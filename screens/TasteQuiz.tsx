@@ -0,0 +1,213 @@
+/**
+ * TasteQuiz Screen
+ *
+ * Last onboarding step: new users rate a handful of well-known titles
+ * (love, like, meh or haven't seen) so their first deck is personalized.
+ * Answers seed the recommendation model, and rated titles are marked as
+ * seen so they aren't recommended back.
+ *
+ * @author Flicksy Team
+ * @version 1.0.0
+ */
+import React, { useEffect, useState } from 'react';
+import { ActivityIndicator, Alert, Image, Pressable, StyleSheet, View } from 'react-native';
+import { ThemedText } from '../components/ThemedText';
+import { ThemedView } from '../components/ThemedView';
+import { TASTE_QUIZ_TITLES } from '../constants/TasteQuiz';
+import { useAuth } from '../contexts/AuthContext';
+import { getContentKey, InteractionKey, parseInteractionKey } from '../services/firebaseDb';
+import { Movie, movieApi, TVShow } from '../services/movieApi';
+import { recommendationService, TasteQuizAnswer } from '../services/recommendationService';
+
+const ANSWERS: { answer: TasteQuizAnswer; label: string }[] = [
+  { answer: 'love', label: 'Love it' },
+  { answer: 'like', label: 'Like it' },
+  { answer: 'meh', label: 'Meh' },
+  { answer: 'unseen', label: "Haven't seen" },
+];
+
+export default function TasteQuiz() {
+  const { user, updatePreferences } = useAuth();
+  const [titles, setTitles] = useState<(Movie | TVShow)[]>([]);
+  const [answers, setAnswers] = useState<{ item: Movie | TVShow; answer: TasteQuizAnswer }[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Titles that fail to load are left out; the quiz only needs a few
+  const loadTitles = async () => {
+    setIsLoading(true);
+    setLoadError(null);
+    const results = await Promise.allSettled(TASTE_QUIZ_TITLES.map(key => {
+      const { id, isMovie } = parseInteractionKey(key);
+      return isMovie ? movieApi.getMovieDetails(id) : movieApi.getTVShowDetails(id);
+    }));
+    const loaded = results.flatMap(result => (result.status === 'fulfilled' ? [result.value] : []));
+    if (loaded.length === 0) {
+      setLoadError('Failed to load titles');
+    }
+    setTitles(loaded);
+    setIsLoading(false);
+  };
+
+  // Load once; reloading would swap the titles out from under answers already given
+  useEffect(() => {
+    loadTitles();
+  }, []);
+
+  const finish = async (given: { item: Movie | TVShow; answer: TasteQuizAnswer }[]) => {
+    if (!user) return;
+    try {
+      setIsSaving(true);
+      await recommendationService.seedFromTasteQuiz(user.id, given);
+
+      // Titles the user has an opinion on are seen; loved and liked ones also seed "Because you liked"
+      const rated = given.filter(({ answer }) => answer !== 'unseen').map(({ item }) => getContentKey(item));
+      const liked = given.filter(({ answer }) => answer === 'love' || answer === 'like').map(({ item }) => getContentKey(item));
+      await updatePreferences({
+        seen: Array.from(new Set<InteractionKey>([...(user.preferences.seen ?? []), ...rated])),
+        likedMovies: Array.from(new Set<InteractionKey>([...(user.preferences.likedMovies ?? []), ...liked])),
+        tasteQuizDone: true,
+      });
+    } catch (e: any) {
+      Alert.alert('Error', e?.message ?? 'Failed to save your answers');
+      setIsSaving(false);
+    }
+  };
+
+  const answer = (choice: TasteQuizAnswer) => {
+    const next = [...answers, { item: titles[answers.length], answer: choice }];
+    setAnswers(next);
+    if (next.length === titles.length) finish(next);
+  };
+
+  const current = titles[answers.length];
+  const isMovie = current && 'title' in current;
+  const releaseDate = current && ('title' in current ? current.release_date : current.first_air_date);
+
+  return (
+    <ThemedView style={styles.container}>
+      <View style={styles.header}>
+        <ThemedText type="title">Rate a few titles</ThemedText>
+        <Pressable onPress={() => finish(answers)} disabled={isSaving || isLoading}>
+          <ThemedText style={styles.skipText}>{answers.length > 0 ? 'Done' : 'Skip'}</ThemedText>
+        </Pressable>
+      </View>
+      <ThemedText style={styles.subtitle}>Your answers shape your first recommendations</ThemedText>
+
+      {isLoading || isSaving ? (
+        <ActivityIndicator style={styles.status} color="#3A5683" />
+      ) : loadError ? (
+        <View style={styles.status}>
+          <ThemedText style={styles.errorText}>{loadError}</ThemedText>
+          <Pressable onPress={loadTitles} style={styles.retryButton}>
+            <ThemedText style={styles.retryButtonText}>Retry</ThemedText>
+          </Pressable>
+        </View>
+      ) : current ? (
+        <View style={styles.card}>
+          <ThemedText style={styles.progress}>{answers.length + 1} of {titles.length}</ThemedText>
+          {current.poster_path ? (
+            <Image source={{ uri: movieApi.getImageUrl(current.poster_path, 'w342') }} style={styles.poster} />
+          ) : (
+            <View style={[styles.poster, styles.posterPlaceholder]} />
+          )}
+          <ThemedText type="subtitle" style={styles.titleText}>{isMovie ? current.title : current.name}</ThemedText>
+          <ThemedText style={styles.meta}>
+            {[isMovie ? 'Movie' : 'TV show', releaseDate?.slice(0, 4)].filter(Boolean).join(' · ')}
+          </ThemedText>
+          <View style={styles.answers}>
+            {ANSWERS.map(option => (
+              <Pressable key={option.answer} onPress={() => answer(option.answer)} style={styles.answerButton}>
+                <ThemedText style={styles.answerText}>{option.label}</ThemedText>
+              </Pressable>
+            ))}
+          </View>
+        </View>
+      ) : null}
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    padding: 16,
+    gap: 12,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  subtitle: {
+    opacity: 0.7,
+  },
+  skipText: {
+    color: '#3A5683',
+    fontWeight: '600',
+  },
+  status: {
+    marginTop: 32,
+    alignItems: 'center',
+    gap: 12,
+  },
+  errorText: {
+    textAlign: 'center',
+    opacity: 0.7,
+  },
+  retryButton: {
+    backgroundColor: '#3A5683',
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 8,
+  },
+  retryButtonText: {
+    color: 'white',
+    fontWeight: '600',
+  },
+  card: {
+    flex: 1,
+    alignItems: 'center',
+    gap: 8,
+  },
+  progress: {
+    fontSize: 13,
+    opacity: 0.6,
+  },
+  poster: {
+    width: 200,
+    height: 300,
+    borderRadius: 12,
+  },
+  posterPlaceholder: {
+    backgroundColor: '#ccc',
+  },
+  titleText: {
+    textAlign: 'center',
+    marginTop: 8,
+  },
+  meta: {
+    opacity: 0.7,
+  },
+  answers: {
+    width: '100%',
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginTop: 12,
+  },
+  answerButton: {
+    flexBasis: '48%',
+    flexGrow: 1,
+    paddingVertical: 12,
+    borderWidth: 1,
+    borderColor: '#3A5683',
+    borderRadius: 999,
+    alignItems: 'center',
+  },
+  answerText: {
+    color: '#3A5683',
+    fontWeight: '600',
+  },
+});
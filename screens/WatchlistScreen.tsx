@@ -16,12 +16,15 @@ import {
 } from 'react-native';
 import { ThemedText } from '../components/ThemedText';
 import { ThemedView } from '../components/ThemedView';
-import { ALL_GENRES } from '../constants/Genres';
 import { useAuth } from '../contexts/AuthContext';
-import { MovieMetadata } from '../services/firebaseDb';
-import { movieApi } from '../services/movieApi';
+import { isConnectivityError } from '../services/apiErrors';
+import { generateInteractionKey, InteractionKey, MovieMetadata, parseInteractionKey } from '../services/firebaseDb';
+import { CatalogGenre, loadGenreCatalog, toCatalogGenreIds } from '../services/genreCatalog';
+import { DEFAULT_REGION } from '../constants/StreamingServices';
+import { movieApi, MovieDetails, TVShowDetails } from '../services/movieApi';
 
 interface WatchlistItem {
+  key: InteractionKey; // Typed reference stored in the user's preferences
   id: number;
   title?: string;
   name?: string;
@@ -33,14 +36,45 @@ interface WatchlistItem {
   vote_average: number;
   vote_count: number;
   genre_ids: number[];
+  popularity: number;
+  original_language?: string;
   isMovie: boolean;
-  genreNames: string[];
+  runtime: number | null; // Movie runtime or episode runtime in minutes
+  certification: string | null; // Age rating in the user's region
+  credit: string | null; // Director (movies) or creator (TV shows)
 }
 
+/**
+ * Build a watchlist row from full title details
+ */
+const toWatchlistItem = (details: MovieDetails | TVShowDetails, isMovie: boolean, region: string): WatchlistItem => {
+  const credit = 'release_dates' in details
+    ? details.credits?.crew.find(c => c.job === 'Director')?.name
+    : (details as TVShowDetails).created_by?.[0]?.name;
+
+  return {
+    ...details,
+    key: generateInteractionKey(details.id, isMovie),
+    isMovie,
+    runtime: movieApi.getRuntime(details),
+    certification: movieApi.getCertification(details, region),
+    credit: credit ?? null,
+  };
+};
+
+/**
+ * Format a runtime in minutes as e.g. "2h 14m"
+ */
+const formatRuntime = (minutes: number): string => {
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  return hours > 0 ? `${hours}h ${rest}m` : `${rest}m`;
+};
+
 interface WatchlistRowProps {
   item: WatchlistItem;
-  onMarkSeen: (id: number) => void;
-  onDelete: (id: number) => void;
+  onMarkSeen: (key: InteractionKey) => void;
+  onDelete: (key: InteractionKey) => void;
 }
 
 const WatchlistRow: React.FC<WatchlistRowProps> = ({ item, onMarkSeen, onDelete }) => {
@@ -71,7 +105,7 @@ const WatchlistRow: React.FC<WatchlistRowProps> = ({ item, onMarkSeen, onDelete
       onPanResponderRelease: async (_, gesture) => {
         const threshold = -160;
         if (gesture.dx < threshold) {
-          onMarkSeen(item.id);
+          onMarkSeen(item.key);
         } else {
           Animated.spring(translateX, { toValue: 0, useNativeDriver: false }).start();
         }
@@ -103,14 +137,14 @@ const WatchlistRow: React.FC<WatchlistRowProps> = ({ item, onMarkSeen, onDelete
             <TouchableOpacity
               style={styles.removeButton}
               onPress={() => {
-                onMarkSeen(item.id);
+                onMarkSeen(item.key);
               }}
             >
               <Ionicons name="eye-outline" size={24} color="#3A5683" />
             </TouchableOpacity>
             <TouchableOpacity
               style={styles.removeButton}
-              onPress={() => onDelete(item.id)}
+              onPress={() => onDelete(item.key)}
             >
               <Ionicons name="close-circle-outline" size={24} color="#F44336" />
             </TouchableOpacity>
@@ -122,6 +156,8 @@ const WatchlistRow: React.FC<WatchlistRowProps> = ({ item, onMarkSeen, onDelete
             <Ionicons name="star" size={14} color="#FFD700" />
             <Text style={styles.rating}>{item.vote_average.toFixed(1)}</Text>
             <Text style={styles.year}>({year})</Text>
+            {item.runtime ? <Text style={styles.year}>· {formatRuntime(item.runtime)}</Text> : null}
+            {item.certification ? <Text style={styles.year}>· {item.certification}</Text> : null}
           </View>
 
           <View style={styles.typeContainer}>
@@ -135,6 +171,12 @@ const WatchlistRow: React.FC<WatchlistRowProps> = ({ item, onMarkSeen, onDelete
 
         {/* Removed in-card Seen badge; only reveal text behind card remains */}
 
+        {item.credit && (
+          <Text style={styles.credit} numberOfLines={1}>
+            {item.isMovie ? 'Directed by' : 'Created by'} {item.credit}
+          </Text>
+        )}
+
         <Text style={styles.overview} numberOfLines={3}>
           {item.overview}
         </Text>
@@ -149,7 +191,8 @@ export default function WatchlistScreen() {
   const [watchlistItems, setWatchlistItems] = useState<WatchlistItem[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [isRefreshing, setIsRefreshing] = useState(false);
-  const [selectedGenre, setSelectedGenre] = useState<string | null>(null);
+  const [selectedGenre, setSelectedGenre] = useState<number | null>(null);
+  const [availableGenres, setAvailableGenres] = useState<CatalogGenre[]>([]);
   const [mediaFilter, setMediaFilter] = useState<'all' | 'movie' | 'tv'>('all');
   const [isFilterOpen, setIsFilterOpen] = useState(false);
   const [activeFilterTab, setActiveFilterTab] = useState<'Genres' | 'Media'>('Genres');
@@ -163,11 +206,13 @@ export default function WatchlistScreen() {
     const releaseYear = releaseDate ? new Date(releaseDate).getFullYear() : 0;
     
     return {
-      title: item.isMovie ? item.title : (item.name || 'Unknown'),
+      title: (item.isMovie ? item.title : item.name) || 'Unknown',
       genres: item.genre_ids || [],
       releaseYear,
       popularity: item.popularity || 0,
-      isMovie: item.isMovie
+      isMovie: item.isMovie,
+      ...(item.original_language && { originalLanguage: item.original_language }),
+      ...(item.runtime && { runtime: item.runtime }),
     };
   };
 
@@ -175,6 +220,11 @@ export default function WatchlistScreen() {
     loadWatchlist();
   }, [user]);
 
+  useEffect(() => {
+    // Show all known genres so users can pre-filter even if not present
+    loadGenreCatalog().then(setAvailableGenres).catch(() => {});
+  }, [user?.preferences.language]);
+
   const loadWatchlist = async () => {
     if (!user || !user.preferences || user.preferences.watchlist?.length === 0) {
       setWatchlistItems([]);
@@ -186,29 +236,26 @@ export default function WatchlistScreen() {
       setIsLoading(true);
       const items: WatchlistItem[] = [];
 
-      // Load details for each item in watchlist
-      for (const itemId of user.preferences.watchlist) {
+      // Load details for each item in watchlist; the key says whether it's a movie or a TV show
+      for (const key of user.preferences.watchlist) {
+        const { id, isMovie } = parseInteractionKey(key);
         try {
-          // Try to get as movie first
-          const movie = await movieApi.getMovieDetails(itemId);
-          const genreNames = await movieApi.mapGenreIdsToNames(movie.genre_ids ?? []);
-          items.push({ ...movie, isMovie: true, genreNames });
-        } catch {
-          try {
-            // If not a movie, try as TV show
-            const tvShow = await movieApi.getTVShowDetails(itemId);
-            const genreNames = await movieApi.mapGenreIdsToNames(tvShow.genre_ids ?? []);
-            items.push({ ...tvShow, isMovie: false, genreNames });
-          } catch (error) {
-            console.warn(`Could not load details for item ${itemId}:`, error);
-          }
+          const details = isMovie ? await movieApi.getMovieDetails(id) : await movieApi.getTVShowDetails(id);
+          items.push(toWatchlistItem(details, isMovie, user.preferences.region || DEFAULT_REGION));
+        } catch (error) {
+          if (isConnectivityError(error)) throw error;
+          console.warn(`Could not load details for item ${key}:`, error);
         }
       }
 
       setWatchlistItems(items);
     } catch (error) {
       console.error('Error loading watchlist:', error);
-      Alert.alert('Error', 'Failed to load watchlist');
+      if (isConnectivityError(error)) {
+        Alert.alert('Offline', 'Could not reach the movie database. Check your connection and pull to refresh.');
+      } else {
+        Alert.alert('Error', 'Failed to load watchlist');
+      }
     } finally {
       setIsLoading(false);
     }
@@ -220,7 +267,7 @@ export default function WatchlistScreen() {
     setIsRefreshing(false);
   };
 
-  const removeFromWatchlist = async (itemId: number) => {
+  const removeFromWatchlist = async (itemKey: InteractionKey) => {
     if (!user) return;
 
     Alert.alert(
@@ -232,39 +279,39 @@ export default function WatchlistScreen() {
           text: 'Remove',
           style: 'destructive',
           onPress: async () => {
-            const updatedWatchlist = (user.preferences?.watchlist || []).filter(id => id !== itemId);
+            const updatedWatchlist = (user.preferences?.watchlist || []).filter(key => key !== itemKey);
             await updatePreferences({ watchlist: updatedWatchlist });
-            setWatchlistItems(prev => prev.filter(item => item.id !== itemId));
+            setWatchlistItems(prev => prev.filter(item => item.key !== itemKey));
           },
         },
       ]
     );
   };
 
-  const removeFromWatchlistImmediate = async (itemId: number) => {
+  const removeFromWatchlistImmediate = async (itemKey: InteractionKey) => {
     if (!user) return;
     try {
-      const updatedWatchlist = (user.preferences?.watchlist || []).filter(id => id !== itemId);
+      const updatedWatchlist = (user.preferences?.watchlist || []).filter(key => key !== itemKey);
       await updatePreferences({ watchlist: updatedWatchlist });
-      setWatchlistItems(prev => prev.filter(item => item.id !== itemId));
+      setWatchlistItems(prev => prev.filter(item => item.key !== itemKey));
     } catch (e) {
       console.error('Failed to remove from watchlist', e);
     }
   };
 
-  const markItemAsSeen = async (itemId: number) => {
+  const markItemAsSeen = async (itemKey: InteractionKey) => {
     if (!user) return;
     try {
       const seen = new Set(user.preferences?.seen ?? []);
-      seen.add(itemId);
+      seen.add(itemKey);
       await updatePreferences({ seen: Array.from(seen) });
       
       // Record interaction for ML
-      const item = watchlistItems.find(i => i.id === itemId);
+      const item = watchlistItems.find(i => i.key === itemKey);
       if (item) {
         try {
           const movieMetadata = extractMovieMetadata(item);
-          await recordMovieInteraction(itemId, 'seen', movieMetadata);
+          await recordMovieInteraction(item.id, 'seen', movieMetadata);
         } catch (error) {
           console.error('Error recording seen interaction:', error);
         }
@@ -284,15 +331,10 @@ export default function WatchlistScreen() {
     />
   );
 
-  const availableGenres = useMemo(() => {
-    // Show all known genres so users can pre-filter even if not present
-    return ALL_GENRES;
-  }, []);
-
-  const userSeenIds = useMemo(() => {
-    const set = new Set<number>();
+  const userSeenKeys = useMemo(() => {
+    const set = new Set<InteractionKey>();
     if (user) {
-      for (const id of user.preferences.seen ?? []) set.add(id);
+      for (const key of user.preferences.seen ?? []) set.add(key);
     }
     return set;
   }, [user?.preferences.seen]);
@@ -302,9 +344,9 @@ export default function WatchlistScreen() {
     
     // First filter by main tab (watchlist vs seen)
     if (activeMainTab === 'watchlist') {
-      items = items.filter(i => !userSeenIds.has(i.id));
+      items = items.filter(i => !userSeenKeys.has(i.key));
     } else {
-      items = items.filter(i => userSeenIds.has(i.id));
+      items = items.filter(i => userSeenKeys.has(i.key));
     }
     
     // Media filter
@@ -313,11 +355,12 @@ export default function WatchlistScreen() {
       items = items.filter(i => i.isMovie === mustBeMovie);
     }
     // Genre filter
-    if (selectedGenre) {
-      items = items.filter(i => i.genreNames.includes(selectedGenre));
+    if (selectedGenre !== null) {
+      // Match through the catalog so e.g. Science Fiction includes "Sci-Fi & Fantasy" shows
+      items = items.filter(i => toCatalogGenreIds(i.genre_ids).includes(selectedGenre));
     }
     return items;
-  }, [watchlistItems, selectedGenre, mediaFilter, activeMainTab, userSeenIds]);
+  }, [watchlistItems, selectedGenre, mediaFilter, activeMainTab, userSeenKeys]);
 
   const renderEmptyState = () => {
     const message = activeMainTab === 'watchlist' 
@@ -385,7 +428,7 @@ export default function WatchlistScreen() {
       <FlatList
         data={displayedItems}
         renderItem={renderWatchlistItem}
-        keyExtractor={(item) => item.id.toString()}
+        keyExtractor={(item) => item.key}
         contentContainerStyle={styles.listContainer}
         refreshControl={
           <RefreshControl
@@ -419,18 +462,18 @@ export default function WatchlistScreen() {
             {activeFilterTab === 'Genres' ? (
               <View style={styles.genreChipsContainer}>
                 <TouchableOpacity
-                  style={[styles.chip, !selectedGenre && styles.chipSelected]}
+                  style={[styles.chip, selectedGenre === null && styles.chipSelected]}
                   onPress={() => setSelectedGenre(null)}
                 >
-                  <Text style={[styles.chipText, !selectedGenre && styles.chipTextSelected]}>All</Text>
+                  <Text style={[styles.chipText, selectedGenre === null && styles.chipTextSelected]}>All</Text>
                 </TouchableOpacity>
                 {availableGenres.map(g => (
                   <TouchableOpacity
-                    key={g}
-                    style={[styles.chip, selectedGenre === g && styles.chipSelected]}
-                    onPress={() => setSelectedGenre(g)}
+                    key={g.id}
+                    style={[styles.chip, selectedGenre === g.id && styles.chipSelected]}
+                    onPress={() => setSelectedGenre(g.id)}
                   >
-                    <Text style={[styles.chipText, selectedGenre === g && styles.chipTextSelected]}>{g}</Text>
+                    <Text style={[styles.chipText, selectedGenre === g.id && styles.chipTextSelected]}>{g.name}</Text>
                   </TouchableOpacity>
                 ))}
               </View>
@@ -683,6 +726,11 @@ const styles = StyleSheet.create({
     fontSize: 10,
     fontWeight: '800',
   },
+  credit: {
+    fontSize: 13,
+    color: '#333',
+    marginBottom: 4,
+  },
   overview: {
     fontSize: 14,
     color: '#666',
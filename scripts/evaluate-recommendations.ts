@@ -0,0 +1,84 @@
+/**
+ * Offline recommendation evaluation
+ *
+ * Replays exported interactions (exportTrainingDataJSON) against a local
+ * TMDB fixture and prints precision@k, recall@k, NDCG@k and coverage for
+ * each scoring strategy, plus the like-rate per experiment arm when the
+ * export has arms. No network access is needed.
+ *
+ * Usage:
+ *   npm run evaluate -- [--data <file|dir>] [--fixture <file>] [--k 10] [--train 0.8]
+ *
+ * --data     An export, an array of exports, or a directory of .json exports
+ *            (default: scripts/fixtures/training-data.sample.json)
+ * --fixture  Titles to rank, as { movies: Movie[], tvShows: TVShow[] }
+ *            (default: scripts/fixtures/tmdb-fixture.json)
+ * --k        Length of each recommendation list
+ * --train    Share of each user's history, oldest first, to learn from
+ */
+
+import path from 'path';
+import {
+  DEFAULT_EVALUATION_OPTIONS,
+  evaluateScorers,
+  EvaluationScorer,
+  fromAppScorer,
+  likeRatesByArm,
+  popularityScorer,
+  ratingScorer,
+  TmdbFixture,
+} from '../services/recommendationEvaluation';
+import { exportedModelScorer, heuristicScorer } from '../services/scorers';
+import { loadExports, parseArgs, readJson } from './helpers';
+
+const FIXTURES_DIR = path.join(__dirname, 'fixtures');
+
+// Strategies to compare; add new scorers here
+const SCORERS: EvaluationScorer[] = [
+  fromAppScorer(heuristicScorer),
+  fromAppScorer(exportedModelScorer),
+  popularityScorer,
+  ratingScorer,
+];
+
+function main() {
+  const args = parseArgs(process.argv.slice(2));
+  const dataPath = args.data ?? path.join(FIXTURES_DIR, 'training-data.sample.json');
+  const fixturePath = args.fixture ?? path.join(FIXTURES_DIR, 'tmdb-fixture.json');
+  const k = args.k ? Number(args.k) : DEFAULT_EVALUATION_OPTIONS.k;
+  const trainFraction = args.train ? Number(args.train) : DEFAULT_EVALUATION_OPTIONS.trainFraction;
+  if (!Number.isInteger(k) || k <= 0 || !(trainFraction > 0 && trainFraction < 1)) {
+    console.error('--k must be a positive integer and --train between 0 and 1');
+    process.exit(1);
+  }
+
+  const exports = loadExports(dataPath);
+  const fixture = readJson<TmdbFixture>(fixturePath);
+  console.log(
+    `Evaluating ${exports.length} users against ${fixture.movies.length + fixture.tvShows.length} titles ` +
+    `(k=${k}, train=${trainFraction})\n`
+  );
+
+  const results = evaluateScorers(exports, fixture, SCORERS, { k, trainFraction });
+  console.table(results.map(result => ({
+    scorer: result.scorer,
+    users: result.users,
+    [`precision@${k}`]: result.precisionAtK.toFixed(3),
+    [`recall@${k}`]: result.recallAtK.toFixed(3),
+    [`ndcg@${k}`]: result.ndcgAtK.toFixed(3),
+    coverage: result.coverage.toFixed(3),
+  })));
+
+  const arms = likeRatesByArm(exports);
+  if (Object.keys(arms).length > 0) {
+    console.log('\nLike-rate per experiment arm (from recorded interactions)\n');
+    console.table(Object.entries(arms).map(([arm, rate]) => ({
+      arm,
+      interactions: rate.interactions,
+      likes: rate.likes,
+      likeRate: rate.likeRate.toFixed(3),
+    })));
+  }
+}
+
+main();
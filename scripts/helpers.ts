@@ -0,0 +1,37 @@
+/**
+ * Argument and file helpers shared by the training and evaluation scripts
+ */
+
+import fs from 'fs';
+import path from 'path';
+import type { TrainingDataExport } from '../services/mlDataService';
+
+/**
+ * Parse `--name value` pairs into a map
+ */
+export function parseArgs(argv: string[]): Record<string, string> {
+  const args: Record<string, string> = {};
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i].startsWith('--') && i + 1 < argv.length) {
+      args[argv[i].slice(2)] = argv[++i];
+    }
+  }
+  return args;
+}
+
+export function readJson<T>(file: string): T {
+  return JSON.parse(fs.readFileSync(file, 'utf8')) as T;
+}
+
+/**
+ * Load training data from an export, an array of exports, or a directory of .json exports
+ */
+export function loadExports(target: string): TrainingDataExport[] {
+  const files = fs.statSync(target).isDirectory()
+    ? fs.readdirSync(target).filter(name => name.endsWith('.json')).map(name => path.join(target, name))
+    : [target];
+  return files.flatMap(file => {
+    const data = readJson<TrainingDataExport | TrainingDataExport[]>(file);
+    return Array.isArray(data) ? data : [data];
+  });
+}
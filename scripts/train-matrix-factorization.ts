@@ -0,0 +1,60 @@
+/**
+ * Train the matrix factorization model
+ *
+ * Learns user and title latent factors from exported interactions
+ * (exportTrainingDataJSON) and, optionally, cross-user aggregates
+ * (exportMovieAggregatesJSON), then writes the title factors to a versioned
+ * model file that the app bundles and scores with.
+ *
+ * Usage:
+ *   npm run train-mf -- --data <file|dir> [--aggregates <file>] [--out <file>]
+ *                       [--factors 16] [--epochs 40] [--seed 42]
+ *
+ * --data        An export, an array of exports, or a directory of .json exports
+ * --aggregates  Aggregates keyed by interaction key, e.g. { "movie_550": {...} }
+ * --out         Model file to write (default: assets/models/mf-model.json)
+ */
+
+import fs from 'fs';
+import path from 'path';
+import type { MovieInteractionAggregate } from '../services/firebaseDb';
+import { DEFAULT_TRAINING_OPTIONS, trainMatrixFactorization } from '../services/matrixFactorization';
+import { loadExports, parseArgs, readJson } from './helpers';
+
+const DEFAULT_OUT = path.join(__dirname, '..', 'assets', 'models', 'mf-model.json');
+
+function main() {
+  const args = parseArgs(process.argv.slice(2));
+  if (!args.data) {
+    console.error('Usage: npm run train-mf -- --data <file|dir> [--aggregates <file>] [--out <file>]');
+    process.exit(1);
+  }
+
+  const options = {
+    ...DEFAULT_TRAINING_OPTIONS,
+    ...(args.factors && { factors: Number(args.factors) }),
+    ...(args.epochs && { epochs: Number(args.epochs) }),
+    ...(args.seed && { seed: Number(args.seed) }),
+  };
+  if (!(options.factors > 0) || !(options.epochs > 0)) {
+    console.error('--factors and --epochs must be positive numbers');
+    process.exit(1);
+  }
+
+  const exports = loadExports(args.data);
+  const aggregates = args.aggregates ? readJson<Record<string, MovieInteractionAggregate>>(args.aggregates) : {};
+  const model = trainMatrixFactorization(exports, aggregates, options);
+
+  const out = args.out ?? DEFAULT_OUT;
+  fs.writeFileSync(out, JSON.stringify(model));
+  const titles = Object.keys(model.items).length;
+  console.log(
+    `Trained on ${exports.length} users: ${titles} titles, ${model.factors} factors, ` +
+    `${(fs.statSync(out).size / 1024).toFixed(1)} KB written to ${path.relative(process.cwd(), out)}`
+  );
+  if (titles === 0) {
+    console.warn(`No title had ${options.minItemInteractions}+ interactions; the app will use the heuristic for everything`);
+  }
+}
+
+main();
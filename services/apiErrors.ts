@@ -0,0 +1,116 @@
+/**
+ * TMDB API Errors
+ *
+ * Typed errors thrown by the TMDB client in `movieApi.ts`.
+ * Callers should branch on the error class (`instanceof`) rather than on message text.
+ *
+ * @author Flicksy Team
+ * @version 1.0.0
+ */
+
+/**
+ * Base class for all TMDB client errors
+ */
+export class TMDBError extends Error {
+  readonly endpoint: string; // Endpoint that was requested (e.g. '/movie/550')
+  readonly status: number | null; // HTTP status code, or null if no response was received
+
+  constructor(message: string, endpoint: string, status: number | null = null) {
+    super(message);
+    // Restore the prototype chain so instanceof works for subclasses of Error
+    Object.setPrototypeOf(this, new.target.prototype);
+    this.name = new.target.name;
+    this.endpoint = endpoint;
+    this.status = status;
+  }
+}
+
+/**
+ * The API key was rejected (HTTP 401)
+ */
+export class TMDBAuthError extends TMDBError {
+  constructor(endpoint: string) {
+    super('Invalid API key. Please check EXPO_PUBLIC_TMDB_API_KEY in your .env file.', endpoint, 401);
+  }
+}
+
+/**
+ * The requested resource does not exist (HTTP 404)
+ */
+export class TMDBNotFoundError extends TMDBError {
+  readonly resourceType: 'movie' | 'tv' | 'person' | 'endpoint'; // What kind of resource was missing
+
+  constructor(endpoint: string) {
+    const resourceType = endpoint.startsWith('/movie/') ? 'movie'
+      : endpoint.startsWith('/tv/') ? 'tv'
+      : endpoint.startsWith('/person/') ? 'person'
+      : 'endpoint';
+    const label = { movie: 'Movie', tv: 'TV show', person: 'Person', endpoint: 'API endpoint' }[resourceType];
+    super(`${label} not found: ${endpoint}`, endpoint, 404);
+    this.resourceType = resourceType;
+  }
+}
+
+/**
+ * Too many requests (HTTP 429), still failing after all retries
+ */
+export class TMDBRateLimitError extends TMDBError {
+  readonly retryAfterMs: number | null; // Delay suggested by the Retry-After header, if any
+
+  constructor(endpoint: string, retryAfterMs: number | null = null) {
+    super(`Rate limit exceeded for ${endpoint}`, endpoint, 429);
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+/**
+ * Any other non-OK HTTP response (e.g. 5xx after all retries)
+ */
+export class TMDBHttpError extends TMDBError {
+  constructor(endpoint: string, status: number) {
+    super(`HTTP error ${status} for ${endpoint}`, endpoint, status);
+  }
+}
+
+/**
+ * The request never reached the server (offline, DNS failure, connection reset)
+ */
+export class TMDBNetworkError extends TMDBError {
+  readonly cause: unknown; // Underlying fetch error
+
+  constructor(endpoint: string, cause: unknown) {
+    super(`Network request failed for ${endpoint}`, endpoint);
+    this.cause = cause;
+  }
+}
+
+/**
+ * The request was aborted after exceeding the configured timeout
+ */
+export class TMDBTimeoutError extends TMDBError {
+  readonly timeoutMs: number; // Timeout that was exceeded
+
+  constructor(endpoint: string, timeoutMs: number) {
+    super(`Request to ${endpoint} timed out after ${timeoutMs}ms`, endpoint);
+    this.timeoutMs = timeoutMs;
+  }
+}
+
+/**
+ * The server responded with a body that could not be parsed as expected
+ */
+export class TMDBMalformedResponseError extends TMDBError {
+  constructor(endpoint: string, status: number, detail: string) {
+    super(`Malformed response from ${endpoint}: ${detail}`, endpoint, status);
+  }
+}
+
+/**
+ * Whether an error means the device could not reach TMDB at all
+ *
+ * @param error - Any caught value
+ * @returns boolean - True for network failures and timeouts
+ */
+export function isConnectivityError(error: unknown): boolean {
+  return error instanceof TMDBNetworkError || error instanceof TMDBTimeoutError;
+}
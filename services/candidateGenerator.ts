@@ -0,0 +1,161 @@
+/**
+ * Candidate Generator
+ *
+ * First stage of the recommender: gathers titles worth scoring from several
+ * TMDB sources, so titles outside the popular charts can reach the deck.
+ *
+ * Sources:
+ * - trending: trending movies and shows this week
+ * - top_rated: all-time top rated movies and shows
+ * - similar: TMDB recommendations for the user's most recently liked titles
+ * - genre: popular titles in the user's top-weighted genres
+ * - new_release: popular titles released in the last few months
+ * - popular: the general popular charts
+ * - collaborative: titles liked by users with similar likes (added by the
+ *   recommendation service, see collaborativeFilter.ts)
+ *
+ * A title returned by several sources appears once, with every source that
+ * produced it.
+ *
+ * @author Flicksy Team
+ * @version 1.0.0
+ */
+
+import { discoverMovies, discoverTVShows } from './discoverQuery';
+import { getContentKey, InteractionKey, parseInteractionKey } from './firebaseDb';
+import { toTmdbGenreIds } from './genreCatalog';
+import { Movie, TVShow, movieApi } from './movieApi';
+
+export type CandidateSource = 'trending' | 'top_rated' | 'similar' | 'genre' | 'new_release' | 'popular' | 'collaborative';
+
+/**
+ * Why a title was picked up as a candidate
+ */
+export interface CandidateAttribution {
+  source: CandidateSource; // Source that produced the title
+  seedKey?: InteractionKey; // Liked title the recommendation came from ('similar' and 'collaborative' only)
+  genreId?: number; // Catalog genre that was queried ('genre' only)
+}
+
+/**
+ * A title to be scored, with every source that produced it
+ */
+export interface Candidate {
+  key: InteractionKey; // Typed reference, e.g. "movie_550"
+  item: Movie | TVShow; // The title as returned by TMDB
+  sources: CandidateAttribution[]; // Sources in the order they were merged
+}
+
+// Titles from one source, tagged with where they came from
+type SourceResult = { items: (Movie | TVShow)[]; attribution: CandidateAttribution }[];
+
+/**
+ * What candidate generation needs to know about the user
+ */
+export interface CandidateRequest {
+  likedKeys: InteractionKey[]; // Liked titles, oldest first
+  topGenreIds: number[]; // Catalog genre IDs the user likes most, strongest first
+  page: number; // Page to fetch from each source (1-based)
+}
+
+const SIMILAR_SEED_COUNT = 3; // Recently liked titles to fetch recommendations for
+const GENRE_SOURCE_COUNT = 3; // Top genres to run discover queries for
+const NEW_RELEASE_DAYS = 90; // How far back a release still counts as new
+const MIN_GENRE_VOTES = 50; // Keeps obscure titles with a handful of votes out of genre results
+
+/**
+ * Fetch one page of candidates from every source and merge them
+ *
+ * Sources that fail are skipped, so one unreachable endpoint doesn't empty
+ * the deck. Throws only if every source failed.
+ *
+ * @param request - The user's liked titles and top genres, and the page to fetch
+ * @returns Promise<Candidate[]> - Merged candidates without duplicates
+ */
+export async function generateCandidates(request: CandidateRequest): Promise<Candidate[]> {
+  const { page } = request;
+  const fetches: Promise<SourceResult>[] = [
+    fetchPair(movieApi.getTrendingMovies(page), movieApi.getTrendingTVShows(page), { source: 'trending' }),
+    fetchPair(movieApi.getTopRatedMovies(page), movieApi.getTopRatedTVShows(page), { source: 'top_rated' }),
+    fetchPair(movieApi.getPopularMovies(page), movieApi.getPopularTVShows(page), { source: 'popular' }),
+    fetchNewReleases(page),
+    ...request.likedKeys.slice(-SIMILAR_SEED_COUNT).reverse().map(key => fetchSimilar(key, page)),
+    ...request.topGenreIds.slice(0, GENRE_SOURCE_COUNT).map(genreId => fetchGenre(genreId, page)),
+  ];
+
+  const results = await Promise.allSettled(fetches);
+  const fulfilled = results.filter((r): r is PromiseFulfilledResult<SourceResult> => r.status === 'fulfilled');
+  if (fulfilled.length === 0) {
+    throw (results[0] as PromiseRejectedResult).reason;
+  }
+
+  const merged = new Map<InteractionKey, Candidate>();
+  for (const { value } of fulfilled) {
+    for (const { items, attribution } of value) {
+      for (const item of items) {
+        const key = getContentKey(item);
+        const existing = merged.get(key);
+        if (existing) {
+          existing.sources.push(attribution);
+        } else {
+          merged.set(key, { key, item, sources: [attribution] });
+        }
+      }
+    }
+  }
+  return Array.from(merged.values());
+}
+
+// ==================== PRIVATE FUNCTIONS ====================
+
+// Settle a movie and a TV request for the same source, failing only if both fail
+async function fetchPair(
+  movies: Promise<{ results: Movie[] }>,
+  tvShows: Promise<{ results: TVShow[] }>,
+  attribution: CandidateAttribution
+): Promise<SourceResult> {
+  const [movieResult, tvResult] = await Promise.allSettled([movies, tvShows]);
+  if (movieResult.status === 'rejected' && tvResult.status === 'rejected') {
+    throw movieResult.reason;
+  }
+  const items: (Movie | TVShow)[] = [
+    ...(movieResult.status === 'fulfilled' ? movieResult.value.results : []),
+    ...(tvResult.status === 'fulfilled' ? tvResult.value.results : []),
+  ];
+  return [{ items, attribution }];
+}
+
+async function fetchNewReleases(page: number): Promise<SourceResult> {
+  const today = new Date();
+  const since = new Date(today.getTime() - NEW_RELEASE_DAYS * 24 * 60 * 60 * 1000);
+  return fetchPair(
+    movieApi.discoverMovies(discoverMovies().releasedBetweenDates(since, today).sortBy('popularity').page(page)),
+    movieApi.discoverTVShows(discoverTVShows().releasedBetweenDates(since, today).sortBy('popularity').page(page)),
+    { source: 'new_release' }
+  );
+}
+
+async function fetchSimilar(seedKey: InteractionKey, page: number): Promise<SourceResult> {
+  const { id, isMovie } = parseInteractionKey(seedKey);
+  const response = isMovie
+    ? await movieApi.getMovieRecommendations(id, page)
+    : await movieApi.getTVRecommendations(id, page);
+  return [{ items: response.results, attribution: { source: 'similar', seedKey } }];
+}
+
+async function fetchGenre(genreId: number, page: number): Promise<SourceResult> {
+  const [movieGenres, tvGenres] = await Promise.all([
+    toTmdbGenreIds([genreId], 'movie'),
+    toTmdbGenreIds([genreId], 'tv'),
+  ]);
+  const empty = Promise.resolve({ results: [] });
+  return fetchPair(
+    movieGenres.length > 0
+      ? movieApi.discoverMovies(discoverMovies().withGenres(movieGenres).minVoteCount(MIN_GENRE_VOTES).sortBy('popularity').page(page))
+      : empty,
+    tvGenres.length > 0
+      ? movieApi.discoverTVShows(discoverTVShows().withGenres(tvGenres).minVoteCount(MIN_GENRE_VOTES).sortBy('popularity').page(page))
+      : empty,
+    { source: 'genre', genreId }
+  );
+}
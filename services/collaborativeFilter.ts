@@ -0,0 +1,175 @@
+/**
+ * Collaborative Filter
+ *
+ * Item-item collaborative filtering ("users who liked X also liked Y") built
+ * from the cross-user aggregates in `movieInteractions/{key}` and the
+ * interaction histories of the users listed there.
+ *
+ * For each of the user's recent likes (the seeds), other users who also
+ * liked the seed are sampled, and every title they liked is counted. Counts
+ * are normalized by how many users liked each title overall (cosine
+ * similarity over like vectors), so blockbusters everyone likes don't win
+ * by default.
+ *
+ * @author Flicksy Team
+ * @version 1.0.0
+ */
+
+import {
+  generateInteractionKey,
+  getMovieInteractions,
+  getUserInteractions,
+  InteractionKey,
+  MovieInteraction,
+  parseInteractionKey,
+} from './firebaseDb';
+
+/**
+ * A title recommended by other users' likes
+ */
+export interface CollaborativeScore {
+  score: number; // Similarity to the user's likes, 0-1
+  seedKey: InteractionKey; // The liked title that contributed most
+}
+
+const MAX_SEEDS = 5; // Recent likes used as seeds
+const MAX_NEIGHBORS_PER_SEED = 30; // Other users sampled per seed
+const MAX_RESULTS = 50; // Titles kept per user
+const MIN_CO_OCCURRENCE = 2; // Titles liked alongside a seed by fewer users are noise
+const CACHE_TTL_MS = 60 * 60 * 1000; // 1 hour
+
+// Interactions that count as liking a title. Swiping right records 'liked' and
+// then 'watchlisted' under the same key, so the stored action is often the latter.
+const POSITIVE_ACTIONS: MovieInteraction['action'][] = ['liked', 'watchlisted'];
+
+/**
+ * CollaborativeFilter class
+ *
+ * Results are cached per user and seed set, since they need one database
+ * read per sampled user.
+ */
+class CollaborativeFilter {
+  private cache: Map<string, { scores: Map<InteractionKey, CollaborativeScore>; fetchedAt: number }> = new Map(); // Keyed by uid and seeds
+
+  /**
+   * Score titles by how often users who liked the seeds also liked them
+   *
+   * @param uid - User the scores are for (excluded from the sampled users)
+   * @param likedKeys - The user's liked titles, oldest first
+   * @returns Promise<Map<InteractionKey, CollaborativeScore>> - Scores for up to 50 titles the user hasn't liked
+   */
+  async getScores(uid: string, likedKeys: InteractionKey[]): Promise<Map<InteractionKey, CollaborativeScore>> {
+    const seeds = likedKeys.slice(-MAX_SEEDS);
+    if (seeds.length === 0) return new Map();
+
+    const cacheKey = `${uid}:${seeds.join(',')}`;
+    const cached = this.cache.get(cacheKey);
+    if (cached && Date.now() - cached.fetchedAt < CACHE_TTL_MS) {
+      return cached.scores;
+    }
+
+    const scores = await this.computeScores(uid, seeds, new Set(likedKeys));
+    this.cache.set(cacheKey, { scores, fetchedAt: Date.now() });
+    return scores;
+  }
+
+  /**
+   * Drop cached scores, e.g. on logout
+   */
+  clearCache() {
+    this.cache.clear();
+  }
+
+  // ==================== PRIVATE METHODS ====================
+
+  private async computeScores(
+    uid: string,
+    seeds: InteractionKey[],
+    alreadyLiked: Set<InteractionKey>
+  ): Promise<Map<InteractionKey, CollaborativeScore>> {
+    // Who else interacted with each seed, and how many users liked it
+    const seedAggregates = await Promise.all(seeds.map(async seed => {
+      const { id, isMovie } = parseInteractionKey(seed);
+      try {
+        return { seed, aggregate: await getMovieInteractions(id, isMovie) };
+      } catch {
+        return { seed, aggregate: null };
+      }
+    }));
+
+    const neighborIds = new Set<string>();
+    for (const { aggregate } of seedAggregates) {
+      for (const userId of (aggregate?.userIds ?? []).filter(id => id !== uid).slice(-MAX_NEIGHBORS_PER_SEED)) {
+        neighborIds.add(userId);
+      }
+    }
+    if (neighborIds.size === 0) return new Map();
+
+    // Titles each neighbor liked
+    const neighborLikes = await Promise.all(Array.from(neighborIds).map(async userId => {
+      try {
+        const interactions = await getUserInteractions(userId);
+        return new Set(
+          interactions
+            .filter(i => i.movieMetadata && POSITIVE_ACTIONS.includes(i.action))
+            .map(i => generateInteractionKey(i.movieId, i.movieMetadata.isMovie))
+        );
+      } catch {
+        return new Set<InteractionKey>();
+      }
+    }));
+
+    // Count co-occurrences per (seed, title)
+    const coOccurrence = new Map<InteractionKey, Map<InteractionKey, number>>();
+    for (const likes of neighborLikes) {
+      for (const seed of seeds) {
+        if (!likes.has(seed)) continue;
+        for (const key of likes) {
+          if (alreadyLiked.has(key)) continue;
+          const perSeed = coOccurrence.get(key) ?? new Map<InteractionKey, number>();
+          perSeed.set(seed, (perSeed.get(seed) ?? 0) + 1);
+          coOccurrence.set(key, perSeed);
+        }
+      }
+    }
+
+    // Keep the most co-liked titles, then normalize by overall popularity
+    const top = Array.from(coOccurrence.entries())
+      .map(([key, perSeed]) => ({ key, perSeed, total: Array.from(perSeed.values()).reduce((a, b) => a + b, 0) }))
+      .filter(entry => entry.total >= MIN_CO_OCCURRENCE)
+      .sort((a, b) => b.total - a.total)
+      .slice(0, MAX_RESULTS);
+
+    const seedLikes = new Map(seedAggregates.map(({ seed, aggregate }) => [seed, likesOf(aggregate)]));
+    const itemLikes = await Promise.all(top.map(async ({ key }) => {
+      const { id, isMovie } = parseInteractionKey(key);
+      try {
+        return likesOf(await getMovieInteractions(id, isMovie));
+      } catch {
+        return 0;
+      }
+    }));
+
+    const scores = new Map<InteractionKey, CollaborativeScore>();
+    top.forEach(({ key, perSeed }, index) => {
+      let best: CollaborativeScore | null = null;
+      let sum = 0;
+      for (const [seed, count] of perSeed) {
+        // Sampling can find more co-likes than the aggregate has seen yet; never divide by less than the count
+        const denominator = Math.sqrt(Math.max(count, seedLikes.get(seed) ?? 0) * Math.max(count, itemLikes[index]));
+        const similarity = denominator > 0 ? count / denominator : 0;
+        sum += similarity;
+        if (!best || similarity > best.score) best = { score: similarity, seedKey: seed };
+      }
+      if (best) scores.set(key, { score: Math.min(1, sum / seeds.length), seedKey: best.seedKey });
+    });
+    return scores;
+  }
+}
+
+// Users who liked a title, according to its aggregate
+function likesOf(aggregate: { totalLikes: number } | null): number {
+  return aggregate?.totalLikes ?? 0;
+}
+
+export const collaborativeFilter = new CollaborativeFilter();
@@ -0,0 +1,79 @@
+/**
+ * Connectivity Service
+ *
+ * Tracks whether the device can reach the internet using NetInfo and
+ * notifies subscribers when the state changes. Other services use it to
+ * decide between network and cached/queued behaviour.
+ *
+ * @author Flicksy Team
+ * @version 1.0.0
+ */
+
+import NetInfo, { NetInfoState } from '@react-native-community/netinfo';
+
+type ConnectivityListener = (isOnline: boolean) => void;
+
+/**
+ * ConnectivityService class
+ *
+ * Assumes the device is online until NetInfo reports otherwise, so nothing
+ * is blocked before the first state update arrives.
+ */
+class ConnectivityService {
+  private online: boolean = true; // Last known connectivity state
+  private listeners: Set<ConnectivityListener> = new Set(); // Subscribers to state changes
+  private unsubscribe: (() => void) | null = null; // NetInfo subscription, if started
+
+  /**
+   * Start listening to NetInfo. Safe to call more than once.
+   */
+  start() {
+    if (this.unsubscribe) return;
+    this.unsubscribe = NetInfo.addEventListener(state => this.handleStateChange(state));
+    NetInfo.fetch()
+      .then(state => this.handleStateChange(state))
+      .catch(error => console.warn('Failed to fetch network state:', error));
+  }
+
+  /**
+   * Stop listening to NetInfo
+   */
+  stop() {
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+  }
+
+  /**
+   * Whether the device currently appears to be online
+   */
+  isOnline(): boolean {
+    return this.online;
+  }
+
+  /**
+   * Subscribe to connectivity changes
+   *
+   * @param listener - Called with the new state whenever it changes
+   * @returns () => void - Function that removes the listener
+   */
+  subscribe(listener: ConnectivityListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // Treat unknown reachability (null) as online; only an explicit false means offline
+  private handleStateChange(state: NetInfoState) {
+    const online = state.isConnected !== false && state.isInternetReachable !== false;
+    if (online === this.online) return;
+
+    this.online = online;
+    console.log(`Connectivity changed: ${online ? 'online' : 'offline'}`);
+    for (const listener of this.listeners) {
+      listener(online);
+    }
+  }
+}
+
+export const connectivityService = new ConnectivityService();
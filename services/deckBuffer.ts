@@ -0,0 +1,56 @@
+/**
+ * Deck Buffer Service
+ *
+ * Persists the upcoming cards of a user's swipe deck to AsyncStorage so the
+ * deck keeps working when the app starts without a connection.
+ *
+ * @author Flicksy Team
+ * @version 1.0.0
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Movie, TVShow } from './movieApi';
+
+const STORAGE_PREFIX = '@flicksy/deck-buffer:'; // Followed by the user's uid
+const MAX_BUFFERED_CARDS = 60; // Upper bound on cards kept per user
+
+/**
+ * Save the upcoming cards for a user
+ *
+ * @param uid - User the deck belongs to
+ * @param cards - Cards not yet swiped, in display order
+ */
+export async function saveDeckBuffer(uid: string, cards: (Movie | TVShow)[]): Promise<void> {
+  try {
+    await AsyncStorage.setItem(STORAGE_PREFIX + uid, JSON.stringify(cards.slice(0, MAX_BUFFERED_CARDS)));
+  } catch (error) {
+    console.warn('Failed to save deck buffer:', error);
+  }
+}
+
+/**
+ * Load the saved cards for a user
+ *
+ * @param uid - User the deck belongs to
+ * @returns Promise<(Movie | TVShow)[]> - Saved cards, or an empty array
+ */
+export async function loadDeckBuffer(uid: string): Promise<(Movie | TVShow)[]> {
+  try {
+    const raw = await AsyncStorage.getItem(STORAGE_PREFIX + uid);
+    return raw ? (JSON.parse(raw) as (Movie | TVShow)[]) : [];
+  } catch (error) {
+    console.warn('Failed to load deck buffer:', error);
+    return [];
+  }
+}
+
+/**
+ * Remove the saved cards for a user
+ */
+export async function clearDeckBuffer(uid: string): Promise<void> {
+  try {
+    await AsyncStorage.removeItem(STORAGE_PREFIX + uid);
+  } catch (error) {
+    console.warn('Failed to clear deck buffer:', error);
+  }
+}
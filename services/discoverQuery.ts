@@ -0,0 +1,248 @@
+/**
+ * Discover Query Builder
+ *
+ * Typed, chainable builder for TMDB's `/discover/movie` and `/discover/tv`
+ * endpoints. Filters are expressed once and translated to the parameter
+ * names each media type expects (e.g. release vs. first air date).
+ *
+ * Usage:
+ *   const query = discoverMovies()
+ *     .withGenres([28, 12])
+ *     .releasedBetween(2000, 2010)
+ *     .minVoteAverage(7)
+ *     .sortBy('vote_average', 'desc');
+ *   const results = await movieApi.discoverMovies(query);
+ *
+ * @author Flicksy Team
+ * @version 1.0.0
+ */
+
+export type DiscoverMediaType = 'movie' | 'tv';
+
+/**
+ * Sort fields supported by both discover endpoints, plus movie-only revenue
+ */
+export type DiscoverSortField<M extends DiscoverMediaType> =
+  | 'popularity'
+  | 'vote_average'
+  | 'vote_count'
+  | 'release_date'
+  | (M extends 'movie' ? 'revenue' : never);
+
+export type SortDirection = 'asc' | 'desc';
+
+/**
+ * How a title is offered by a watch provider
+ */
+export type WatchMonetizationType = 'flatrate' | 'free' | 'ads' | 'rent' | 'buy';
+
+/**
+ * How multiple genres or providers are combined
+ * - 'all': every value must match (comma-separated)
+ * - 'any': at least one value must match (pipe-separated)
+ */
+export type MatchMode = 'all' | 'any';
+
+/**
+ * DiscoverQuery class
+ *
+ * Accumulates filters and serializes them to a TMDB endpoint path.
+ * Each setter returns the builder so calls can be chained.
+ */
+export class DiscoverQuery<M extends DiscoverMediaType> {
+  readonly mediaType: M;
+  private params: Map<string, string> = new Map();
+
+  constructor(mediaType: M) {
+    this.mediaType = mediaType;
+  }
+
+  /**
+   * Only include titles with the given genres
+   *
+   * @param genreIds - TMDB genre IDs
+   * @param mode - Whether titles need all or any of the genres (default: any)
+   */
+  withGenres(genreIds: number[], mode: MatchMode = 'any'): this {
+    return this.setList('with_genres', genreIds, mode);
+  }
+
+  /**
+   * Exclude titles with any of the given genres
+   *
+   * @param genreIds - TMDB genre IDs
+   */
+  withoutGenres(genreIds: number[]): this {
+    return this.setList('without_genres', genreIds, 'all');
+  }
+
+  /**
+   * Only include titles released (or first aired) within a year range
+   *
+   * @param fromYear - First year to include, or null for no lower bound
+   * @param toYear - Last year to include, or null for no upper bound
+   */
+  releasedBetween(fromYear: number | null, toYear: number | null): this {
+    const field = this.mediaType === 'movie' ? 'primary_release_date' : 'first_air_date';
+    this.setOrDelete(`${field}.gte`, fromYear !== null ? `${fromYear}-01-01` : null);
+    this.setOrDelete(`${field}.lte`, toYear !== null ? `${toYear}-12-31` : null);
+    return this;
+  }
+
+  /**
+   * Only include titles released (or first aired) between two dates
+   *
+   * @param from - First day to include, or null for no lower bound
+   * @param to - Last day to include, or null for no upper bound
+   */
+  releasedBetweenDates(from: Date | null, to: Date | null): this {
+    const field = this.mediaType === 'movie' ? 'primary_release_date' : 'first_air_date';
+    this.setOrDelete(`${field}.gte`, from ? from.toISOString().slice(0, 10) : null);
+    this.setOrDelete(`${field}.lte`, to ? to.toISOString().slice(0, 10) : null);
+    return this;
+  }
+
+  /**
+   * Only include titles whose runtime (or episode runtime) is within a range
+   *
+   * @param minMinutes - Minimum runtime in minutes, or null for no lower bound
+   * @param maxMinutes - Maximum runtime in minutes, or null for no upper bound
+   */
+  runtimeBetween(minMinutes: number | null, maxMinutes: number | null): this {
+    this.setOrDelete('with_runtime.gte', minMinutes);
+    this.setOrDelete('with_runtime.lte', maxMinutes);
+    return this;
+  }
+
+  /**
+   * Only include titles originally made in a language
+   *
+   * @param languageCode - ISO 639-1 code (e.g. 'no', 'en')
+   */
+  originalLanguage(languageCode: string): this {
+    this.params.set('with_original_language', languageCode);
+    return this;
+  }
+
+  /**
+   * Only include titles rated at least this high
+   *
+   * @param average - Minimum vote average (0-10)
+   */
+  minVoteAverage(average: number): this {
+    this.params.set('vote_average.gte', String(average));
+    return this;
+  }
+
+  /**
+   * Only include titles with at least this many votes
+   *
+   * @param count - Minimum number of votes
+   */
+  minVoteCount(count: number): this {
+    this.params.set('vote_count.gte', String(count));
+    return this;
+  }
+
+  /**
+   * Only include titles available from the given watch providers in a region
+   *
+   * @param providerIds - TMDB watch provider IDs
+   * @param region - ISO 3166-1 country code (e.g. 'NO')
+   * @param mode - Whether titles need all or any of the providers (default: any)
+   */
+  withWatchProviders(providerIds: number[], region: string, mode: MatchMode = 'any'): this {
+    this.setList('with_watch_providers', providerIds, mode);
+    this.setOrDelete('watch_region', providerIds.length > 0 ? region : null);
+    return this;
+  }
+
+  /**
+   * Only count provider availability of the given kinds (used with withWatchProviders)
+   *
+   * @param types - e.g. ['flatrate'] for subscription streaming only
+   */
+  monetizationTypes(types: WatchMonetizationType[]): this {
+    this.setOrDelete('with_watch_monetization_types', types.length > 0 ? types.join('|') : null);
+    return this;
+  }
+
+  /**
+   * Set the sort order
+   *
+   * @param field - Field to sort on
+   * @param direction - Sort direction (default: desc)
+   */
+  sortBy(field: DiscoverSortField<M>, direction: SortDirection = 'desc'): this {
+    let apiField: string = field;
+    if (field === 'release_date') {
+      apiField = this.mediaType === 'movie' ? 'primary_release_date' : 'first_air_date';
+    }
+    this.params.set('sort_by', `${apiField}.${direction}`);
+    return this;
+  }
+
+  /**
+   * Set the result page
+   *
+   * @param page - Page number (1-based)
+   */
+  page(page: number): this {
+    this.params.set('page', String(page));
+    return this;
+  }
+
+  /**
+   * Copy this query so variations can be built without affecting the original
+   */
+  clone(): DiscoverQuery<M> {
+    const copy = new DiscoverQuery(this.mediaType);
+    copy.params = new Map(this.params);
+    return copy;
+  }
+
+  /**
+   * Serialize the query to a TMDB endpoint path
+   *
+   * Parameters are sorted so equivalent queries produce the same endpoint
+   * (and therefore share a cache entry).
+   *
+   * @returns string - e.g. '/discover/movie?page=1&with_genres=28'
+   */
+  toEndpoint(): string {
+    const query = Array.from(this.params.entries())
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([key, value]) => `${key}=${encodeURIComponent(value)}`)
+      .join('&');
+    return query ? `/discover/${this.mediaType}?${query}` : `/discover/${this.mediaType}`;
+  }
+
+  // ==================== PRIVATE METHODS ====================
+
+  private setList(key: string, values: number[], mode: MatchMode): this {
+    this.setOrDelete(key, values.length > 0 ? values.join(mode === 'all' ? ',' : '|') : null);
+    return this;
+  }
+
+  private setOrDelete(key: string, value: string | number | null) {
+    if (value === null) {
+      this.params.delete(key);
+    } else {
+      this.params.set(key, String(value));
+    }
+  }
+}
+
+/**
+ * Start a `/discover/movie` query
+ */
+export function discoverMovies(): DiscoverQuery<'movie'> {
+  return new DiscoverQuery('movie');
+}
+
+/**
+ * Start a `/discover/tv` query
+ */
+export function discoverTVShows(): DiscoverQuery<'tv'> {
+  return new DiscoverQuery('tv');
+}
@@ -0,0 +1,100 @@
+/**
+ * Diversity Ranker
+ *
+ * Re-ranks scored recommendations with maximal marginal relevance (MMR) so a
+ * deck isn't dominated by one genre, media type, decade or language. Each
+ * pick balances the title's own score against how similar it is to the
+ * titles already picked.
+ *
+ * @author Flicksy Team
+ * @version 1.0.0
+ */
+
+import { toCatalogGenreIds } from './genreCatalog';
+import { Movie, TVShow } from './movieApi';
+
+// How much each attribute counts towards the similarity of two titles (sums to 1)
+const SIMILARITY_WEIGHTS = {
+  genres: 0.4,
+  mediaType: 0.2,
+  decade: 0.2,
+  language: 0.2,
+};
+
+/**
+ * Pick `limit` items in MMR order
+ *
+ * @param items - Items to rank, with scores on a 0-10 scale
+ * @param limit - Number of items to return
+ * @param diversity - 0 keeps the plain score order, 1 ranks by novelty alone
+ * @returns T[] - Picked items, in the order they should be shown
+ */
+export function rerankForDiversity<T extends { item: Movie | TVShow; score: number }>(
+  items: T[],
+  limit: number,
+  diversity: number
+): T[] {
+  const lambda = 1 - Math.max(0, Math.min(1, diversity));
+  if (lambda === 1) {
+    return [...items].sort((a, b) => b.score - a.score).slice(0, limit);
+  }
+
+  const remaining = items.map(entry => ({ entry, features: getFeatures(entry.item), maxSimilarity: 0 }));
+  const picked: T[] = [];
+
+  while (picked.length < limit && remaining.length > 0) {
+    let bestIndex = 0;
+    let bestValue = -Infinity;
+    for (let i = 0; i < remaining.length; i++) {
+      const { entry, maxSimilarity } = remaining[i];
+      const value = lambda * (entry.score / 10) - (1 - lambda) * maxSimilarity;
+      if (value > bestValue) {
+        bestValue = value;
+        bestIndex = i;
+      }
+    }
+
+    const [chosen] = remaining.splice(bestIndex, 1);
+    picked.push(chosen.entry);
+    // Only the newest pick can raise a candidate's similarity to the picked set
+    for (const candidate of remaining) {
+      candidate.maxSimilarity = Math.max(candidate.maxSimilarity, similarity(candidate.features, chosen.features));
+    }
+  }
+
+  return picked;
+}
+
+// ==================== PRIVATE FUNCTIONS ====================
+
+interface ItemFeatures {
+  genres: Set<number>; // Catalog genre IDs
+  isMovie: boolean;
+  decade: number | null; // e.g. 1990, or null if the date is unknown
+  language: string; // ISO 639-1 original language
+}
+
+function getFeatures(item: Movie | TVShow): ItemFeatures {
+  const isMovie = 'title' in item;
+  const date = isMovie ? item.release_date : item.first_air_date;
+  const year = date ? Number(date.slice(0, 4)) : NaN;
+  return {
+    genres: new Set(toCatalogGenreIds(item.genre_ids || [])),
+    isMovie,
+    decade: Number.isFinite(year) ? Math.floor(year / 10) * 10 : null,
+    language: item.original_language,
+  };
+}
+
+function similarity(a: ItemFeatures, b: ItemFeatures): number {
+  let shared = 0;
+  for (const genre of a.genres) if (b.genres.has(genre)) shared++;
+  const union = a.genres.size + b.genres.size - shared;
+
+  return (
+    SIMILARITY_WEIGHTS.genres * (union > 0 ? shared / union : 0) +
+    SIMILARITY_WEIGHTS.mediaType * (a.isMovie === b.isMovie ? 1 : 0) +
+    SIMILARITY_WEIGHTS.decade * (a.decade !== null && a.decade === b.decade ? 1 : 0) +
+    SIMILARITY_WEIGHTS.language * (a.language === b.language ? 1 : 0)
+  );
+}
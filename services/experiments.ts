@@ -0,0 +1,62 @@
+/**
+ * Experiments
+ *
+ * Deterministic assignment of users to experiment arms. A user's arm is a
+ * hash of the experiment ID and their uid, so it's the same on every device
+ * and needs no server. Changing an experiment's ID reshuffles everyone.
+ *
+ * Interactions record the arm whose scorer ranked the deck they were made in
+ * (`MovieInteraction.experiment`, see RecommendationService.getScorerAssignment),
+ * so like-rates per arm can be compared from exported data.
+ *
+ * @author Flicksy Team
+ * @version 1.0.0
+ */
+
+import type { ScorerId } from './scorers';
+
+/**
+ * An experiment and the arms users are split between evenly
+ */
+export interface Experiment<Arm extends string> {
+  id: string; // Stable ID; changing it reassigns every user
+  arms: readonly Arm[];
+}
+
+/**
+ * The arm a user was in, as recorded on interactions
+ */
+export interface ExperimentAssignment {
+  experimentId: string; // Experiment.id
+  arm: string; // One of the experiment's arms
+}
+
+// Which scorer ranks the swipe deck. Changing the arms reassigns users, so the ID changes with them;
+// exported_model and matrix_factorization join once trained weights and a trained model ship in assets/models.
+export const SCORER_EXPERIMENT: Experiment<ScorerId> = {
+  id: 'scorer-2026-10c',
+  arms: ['heuristic', 'collaborative'],
+};
+
+/**
+ * Get a user's arm in an experiment
+ *
+ * @param uid - User to assign
+ * @param experiment - Experiment to assign them in
+ * @returns Arm - The same arm every time for the same user and experiment
+ */
+export function assignArm<Arm extends string>(uid: string, experiment: Experiment<Arm>): Arm {
+  return experiment.arms[hash(`${experiment.id}:${uid}`) % experiment.arms.length];
+}
+
+// ==================== PRIVATE FUNCTIONS ====================
+
+// 32-bit FNV-1a, spreads similar uids evenly across arms
+function hash(value: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    h ^= value.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
@@ -1,5 +1,9 @@
 import { get, ref, remove, set, update } from 'firebase/database';
 import { database } from './firebase';
+import type { ExperimentAssignment } from './experiments';
+import { generateInteractionKey } from './interactionKeys';
+import type { Movie, TVShow } from './movieApi';
+import type { TasteModelState } from './tasteModelStore';
 
 /**
  * Movie metadata interface for ML purposes
@@ -10,6 +14,8 @@ export interface MovieMetadata {
   releaseYear: number;
   popularity: number;
   isMovie: boolean; // true for movies, false for TV shows
+  originalLanguage?: string; // ISO 639-1 code of the original language (e.g. 'ko')
+  runtime?: number; // Runtime in minutes (episode runtime for TV shows), when known
 }
 
 /**
@@ -20,6 +26,8 @@ export interface MovieInteraction {
   action: 'liked' | 'disliked' | 'watchlisted' | 'seen';
   timestamp: number;
   movieMetadata: MovieMetadata;
+  experiment?: ExperimentAssignment; // Experiment arm the user was in when this was recorded
+  actions?: Partial<Record<MovieInteraction['action'], number>>; // Every action taken on the title, with when it was last taken; set by recordInteraction
 }
 
 /**
@@ -33,6 +41,12 @@ export interface MovieInteractionAggregate {
   userIds: string[]; // For collaborative filtering
 }
 
+/**
+ * Typed reference to a movie or TV show, e.g. "movie_550" or "tv_1399".
+ * TMDB movie and TV IDs overlap, so stored references always carry the media type.
+ */
+export type InteractionKey = `movie_${number}` | `tv_${number}`;
+
 /**
  * User interface for Firebase database operations
  */
@@ -41,14 +55,22 @@ export interface FirebaseUser {
   email: string;
   name: string;
   preferences: {
-    genres: string[];
-    likedMovies: number[];
-    dislikedMovies: number[];
-    watchlist: number[];
-    seen: number[];
+    genres: number[]; // Genre catalog IDs (see genreCatalog.ts)
+    likedMovies: InteractionKey[];
+    dislikedMovies: InteractionKey[];
+    watchlist: InteractionKey[];
+    seen: InteractionKey[];
     streamingServices: string[];
+    onlyMyServices?: boolean; // Only show titles streaming on streamingServices in the swipe deck
+    language?: string; // TMDB content language (e.g. 'nb-NO'); English if unset
+    region?: string; // ISO 3166-1 region for release dates and availability (e.g. 'NO')
+    diversity?: number; // 0-1, how varied recommendation decks are
+    explorationRate?: number; // 0-1, share of recommendations from outside the user's profile
+    tasteHalfLifeDays?: number; // Days until a swipe counts half as much; 0 never forgets
+    tasteQuizDone?: boolean; // Finished or skipped the onboarding taste quiz
   };
   apiKeys: Record<string, string>;
+  tasteModel?: TasteModelState; // Learned recommendation model, synced from the device
   createdAt: number;
 }
 
@@ -140,19 +162,20 @@ export async function deleteUser(uid: string): Promise<void> {
 
 // ==================== ML INTERACTION FUNCTIONS ====================
 
+export { generateInteractionKey };
+
 /**
- * Generate a composite key to differentiate movies and TV shows
- * Format: "movie_123" or "tv_456"
+ * Get the composite key for a movie or TV show returned by TMDB
  */
-export function generateInteractionKey(movieId: number, isMovie: boolean): string {
-  return `${isMovie ? 'movie' : 'tv'}_${movieId}`;
+export function getContentKey(item: Movie | TVShow): InteractionKey {
+  return generateInteractionKey(item.id, 'title' in item);
 }
 
 /**
  * Parse a composite key to extract ID and type
  * Returns: { id: number, isMovie: boolean }
  */
-export function parseInteractionKey(key: string): { id: number; isMovie: boolean } {
+export function parseInteractionKey(key: InteractionKey | string): { id: number; isMovie: boolean } {
   const [type, idStr] = key.split('_');
   return {
     id: parseInt(idStr, 10),
@@ -160,13 +183,28 @@ export function parseInteractionKey(key: string): { id: number; isMovie: boolean
   };
 }
 
+/**
+ * Check whether a stored value is a composite key rather than a legacy bare ID
+ */
+export function isInteractionKey(value: unknown): value is InteractionKey {
+  return typeof value === 'string' && /^(movie|tv)_\d+$/.test(value);
+}
+
 /**
  * Record a movie interaction for ML purposes
+ * 
+ * The record holds the latest action on the title, plus every action
+ * taken on it in `actions`, so a right swipe's like survives the
+ * watchlisting recorded right after it.
  */
 export async function recordInteraction(uid: string, interaction: MovieInteraction): Promise<void> {
   const compositeKey = generateInteractionKey(interaction.movieId, interaction.movieMetadata.isMovie);
   const interactionRef = ref(database, `users/${uid}/interactions/${compositeKey}`);
-  await set(interactionRef, interaction);
+  await update(interactionRef, {
+    ...interaction,
+    experiment: interaction.experiment ?? null, // Clear an arm recorded with an earlier action
+    [`actions/${interaction.action}`]: interaction.timestamp,
+  });
   
   // Also update aggregated movie data for ML
   await updateMovieAggregates(interaction.movieId, interaction.movieMetadata.isMovie, interaction.action, uid);
@@ -265,3 +303,20 @@ export async function getRecentUserInteractions(uid: string, days: number = 30):
   
   return interactions.filter(interaction => interaction.timestamp >= cutoffTime);
 }
+
+/**
+ * Get the learned recommendation model synced for a user
+ */
+export async function getUserTasteModel(uid: string): Promise<TasteModelState | null> {
+  const modelRef = ref(database, `users/${uid}/tasteModel`);
+  const snapshot = await get(modelRef);
+  return snapshot.exists() ? (snapshot.val() as TasteModelState) : null;
+}
+
+/**
+ * Save the learned recommendation model for a user
+ */
+export async function setUserTasteModel(uid: string, model: TasteModelState): Promise<void> {
+  const modelRef = ref(database, `users/${uid}/tasteModel`);
+  await set(modelRef, model);
+}
@@ -0,0 +1,87 @@
+/**
+ * Genre Catalog
+ *
+ * Builds one genre taxonomy from TMDB's movie and TV genre lists. Most
+ * genres share an ID across both lists (Drama is 18 for movies and TV), but
+ * TMDB's TV list folds some movie genres together, e.g. "Sci-Fi & Fantasy".
+ * Those combined TV genres are split back into their movie counterparts so
+ * a single catalog ID covers the same genre for both media types.
+ *
+ * Catalog IDs are the TMDB movie genre ID where one exists, otherwise the TV
+ * genre ID (e.g. Reality, Kids). They are what users' genre preferences store.
+ *
+ * @author Flicksy Team
+ * @version 1.0.0
+ */
+
+import { COMBINED_TV_GENRES } from './genreMapping';
+import { movieApi } from './movieApi';
+
+export { toCatalogGenreIds } from './genreMapping';
+
+/**
+ * A genre in the unified catalog
+ */
+export interface CatalogGenre {
+  id: number; // Stable catalog ID stored in preferences
+  name: string; // Display name in the requested language
+  movieGenreIds: number[]; // TMDB movie genre IDs this genre covers
+  tvGenreIds: number[]; // TMDB TV genre IDs this genre covers
+}
+
+/**
+ * Load the catalog with names in the given language
+ *
+ * Genre lists go through the TMDB response cache, so repeated calls are cheap.
+ *
+ * @param language - Language of the genre names (default: the active locale)
+ * @returns Promise<CatalogGenre[]> - Genres sorted by name
+ */
+export async function loadGenreCatalog(language?: string): Promise<CatalogGenre[]> {
+  const [movieGenres, tvGenres] = await Promise.all([
+    movieApi.getMovieGenres(language),
+    movieApi.getTVGenres(language),
+  ]);
+
+  const catalog = new Map<number, CatalogGenre>();
+  for (const genre of movieGenres.genres) {
+    catalog.set(genre.id, { id: genre.id, name: genre.name, movieGenreIds: [genre.id], tvGenreIds: [] });
+  }
+
+  for (const genre of tvGenres.genres) {
+    for (const id of COMBINED_TV_GENRES[genre.id] ?? [genre.id]) {
+      const existing = catalog.get(id);
+      if (existing) {
+        existing.tvGenreIds.push(genre.id);
+      } else {
+        // TV-only genre such as Reality or Talk
+        catalog.set(id, { id, name: genre.name, movieGenreIds: [], tvGenreIds: [genre.id] });
+      }
+    }
+  }
+
+  return Array.from(catalog.values()).sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Map catalog IDs to the TMDB genre IDs used by one media type
+ *
+ * Useful for discover queries, e.g. Science Fiction becomes 878 for movies
+ * and 10765 ("Sci-Fi & Fantasy") for TV. Genres a media type doesn't have
+ * are left out.
+ *
+ * @param catalogIds - Catalog genre IDs
+ * @param mediaType - Media type the IDs are for
+ * @returns Promise<number[]> - TMDB genre IDs, without duplicates
+ */
+export async function toTmdbGenreIds(catalogIds: number[], mediaType: 'movie' | 'tv'): Promise<number[]> {
+  const catalog = await loadGenreCatalog();
+  const ids = new Set<number>();
+  for (const genre of catalog) {
+    if (!catalogIds.includes(genre.id)) continue;
+    for (const id of mediaType === 'movie' ? genre.movieGenreIds : genre.tvGenreIds) {
+      ids.add(id);
+    }
+  }
+  return Array.from(ids);
+}
@@ -0,0 +1,33 @@
+/**
+ * Genre Mapping
+ *
+ * Static mapping from TMDB genre IDs to catalog genre IDs. Split out of
+ * genreCatalog.ts because it needs no network access, so scoring code can
+ * use it outside the app.
+ *
+ * @author Flicksy Team
+ * @version 1.0.0
+ */
+
+// TMDB TV genres that combine movie genres, mapped to the catalog IDs they stand for
+export const COMBINED_TV_GENRES: Record<number, number[]> = {
+  10759: [28, 12], // Action & Adventure -> Action, Adventure
+  10765: [878, 14], // Sci-Fi & Fantasy -> Science Fiction, Fantasy
+  10768: [10752], // War & Politics -> War
+};
+
+/**
+ * Map TMDB genre IDs from a movie or TV show to catalog IDs
+ *
+ * @param tmdbGenreIds - `genre_ids` as returned by TMDB
+ * @returns number[] - Catalog IDs, without duplicates
+ */
+export function toCatalogGenreIds(tmdbGenreIds: number[]): number[] {
+  const ids = new Set<number>();
+  for (const id of tmdbGenreIds) {
+    for (const catalogId of COMBINED_TV_GENRES[id] ?? [id]) {
+      ids.add(catalogId);
+    }
+  }
+  return Array.from(ids);
+}
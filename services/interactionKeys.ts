@@ -0,0 +1,20 @@
+/**
+ * Interaction Keys
+ *
+ * Builds the composite keys ("movie_550", "tv_1399") that Firebase paths
+ * and stored references use. Kept apart from firebaseDb so the training and
+ * evaluation scripts can build keys without loading Firebase.
+ *
+ * @author Flicksy Team
+ * @version 1.0.0
+ */
+
+import type { InteractionKey } from './firebaseDb';
+
+/**
+ * Generate a composite key to differentiate movies and TV shows
+ * Format: "movie_123" or "tv_456"
+ */
+export function generateInteractionKey(movieId: number, isMovie: boolean): InteractionKey {
+  return `${isMovie ? 'movie' : 'tv'}_${movieId}`;
+}
@@ -0,0 +1,241 @@
+/**
+ * Matrix Factorization
+ *
+ * Latent factor model of which titles users like, trained offline from
+ * exported interactions (scripts/train-matrix-factorization.ts) and used on
+ * device to predict how likely the current user is to like a title.
+ *
+ * The model predicts sigmoid(globalBias + userBias + itemBias + user · item).
+ * Only item factors are shipped; the current user's factors are fitted on
+ * device from their own likes and dislikes ("folding in"), so new users and
+ * new swipes count without retraining.
+ *
+ * Titles that weren't in the training data have no factors (cold start);
+ * callers fall back to the heuristic score for them.
+ *
+ * Uses no app services, so training runs under Node.
+ *
+ * @author Flicksy Team
+ * @version 1.0.0
+ */
+
+import type { InteractionKey, MovieInteraction, MovieInteractionAggregate } from './firebaseDb';
+import { generateInteractionKey } from './interactionKeys';
+import type { TrainingDataExport } from './mlDataService';
+
+export const MF_MODEL_VERSION = 1; // Bump when MatrixFactorizationModel changes shape or meaning
+
+/**
+ * Model file written by the training script
+ */
+export interface MatrixFactorizationModel {
+  version: number; // Format version, see MF_MODEL_VERSION
+  trainedAt: number; // When the model was trained (ms since epoch); 0 for the empty model
+  factors: number; // Length of each latent vector
+  globalBias: number; // Log-odds of a like across all training data
+  items: Record<string, number[]>; // Interaction key to [bias, ...factors], rounded for size
+}
+
+/**
+ * The current user's fitted factors
+ */
+export interface UserFactors {
+  bias: number;
+  vector: number[];
+}
+
+/**
+ * Training settings
+ */
+export interface TrainingOptions {
+  factors: number; // Latent vector length
+  epochs: number; // Passes over the training data
+  learningRate: number; // SGD step size
+  regularization: number; // L2 penalty on biases and factors
+  minItemInteractions: number; // Titles with fewer training interactions are left out (cold start)
+  seed: number; // Seed for initialization and shuffling, so runs are reproducible
+}
+
+export const DEFAULT_TRAINING_OPTIONS: TrainingOptions = {
+  factors: 16,
+  epochs: 40,
+  learningRate: 0.05,
+  regularization: 0.02,
+  minItemInteractions: 2,
+  seed: 42,
+};
+
+// Training target per action; 'seen' says nothing about taste and is skipped
+const TARGETS: Partial<Record<MovieInteraction['action'], number>> = {
+  liked: 1,
+  watchlisted: 1,
+  disliked: 0,
+};
+
+const FOLD_IN_EPOCHS = 50;
+const DECIMALS = 4;
+
+/**
+ * Train a model from exported interactions
+ *
+ * @param exports - One training data export per user
+ * @param aggregates - Cross-user aggregates keyed by interaction key
+ *   (exportMovieAggregatesJSON); used as each title's starting bias
+ * @param options - Training settings
+ * @returns MatrixFactorizationModel - Ready to write to disk
+ */
+export function trainMatrixFactorization(
+  exports: TrainingDataExport[],
+  aggregates: Record<string, MovieInteractionAggregate> = {},
+  options: TrainingOptions = DEFAULT_TRAINING_OPTIONS
+): MatrixFactorizationModel {
+  const random = mulberry32(options.seed);
+
+  // One (user, title, target) triple per interaction that says something about taste
+  const samples: { user: number; item: string; target: number }[] = [];
+  exports.forEach((userExport, user) => {
+    for (const interaction of userExport.interactions) {
+      const target = TARGETS[interaction.action];
+      if (target === undefined) continue;
+      samples.push({ user, item: generateInteractionKey(interaction.movieId, interaction.features.isMovie), target });
+    }
+  });
+
+  const counts = new Map<string, number>();
+  for (const { item } of samples) counts.set(item, (counts.get(item) ?? 0) + 1);
+  const kept = samples.filter(({ item }) => (counts.get(item) ?? 0) >= options.minItemInteractions);
+
+  const positives = kept.filter(sample => sample.target === 1).length;
+  const globalBias = logit((positives + 1) / (kept.length + 2));
+
+  const init = () => Array.from({ length: options.factors }, () => (random() - 0.5) * 0.1);
+  const users = exports.map(() => ({ bias: 0, vector: init() }));
+  const items = new Map<string, { bias: number; vector: number[] }>();
+  for (const { item } of kept) {
+    if (items.has(item)) continue;
+    const aggregate = aggregates[item];
+    // Start from the title's like rate across all users, when known
+    const bias = aggregate
+      ? logit((aggregate.totalLikes + aggregate.totalWatchlists + 1) / (aggregate.totalLikes + aggregate.totalWatchlists + aggregate.totalDislikes + 2)) - globalBias
+      : 0;
+    items.set(item, { bias, vector: init() });
+  }
+
+  const { learningRate: rate, regularization: reg } = options;
+  for (let epoch = 0; epoch < options.epochs; epoch++) {
+    shuffle(kept, random);
+    for (const { user, item, target } of kept) {
+      const u = users[user];
+      const v = items.get(item)!;
+      const error = target - sigmoid(globalBias + u.bias + v.bias + dot(u.vector, v.vector));
+
+      u.bias += rate * (error - reg * u.bias);
+      v.bias += rate * (error - reg * v.bias);
+      for (let f = 0; f < options.factors; f++) {
+        const uf = u.vector[f];
+        u.vector[f] += rate * (error * v.vector[f] - reg * uf);
+        v.vector[f] += rate * (error * uf - reg * v.vector[f]);
+      }
+    }
+  }
+
+  return {
+    version: MF_MODEL_VERSION,
+    trainedAt: Date.now(),
+    factors: options.factors,
+    globalBias: round(globalBias),
+    items: Object.fromEntries(
+      Array.from(items.entries()).map(([key, { bias, vector }]) => [key, [bias, ...vector].map(round)])
+    ),
+  };
+}
+
+/**
+ * Whether a loaded model can be used
+ *
+ * @param model - Parsed model file
+ * @returns boolean - False for other versions and for models without titles
+ */
+export function isUsableModel(model: MatrixFactorizationModel | null | undefined): model is MatrixFactorizationModel {
+  return !!model && model.version === MF_MODEL_VERSION && Object.keys(model.items ?? {}).length > 0;
+}
+
+/**
+ * Fit the current user's factors to their feedback, keeping item factors fixed
+ *
+ * @param model - Trained model
+ * @param feedback - Liked (1) and disliked (0) titles
+ * @returns UserFactors | null - Null if none of the titles are in the model
+ */
+export function foldInUser(model: MatrixFactorizationModel, feedback: Map<InteractionKey, number>): UserFactors | null {
+  const known = Array.from(feedback.entries()).filter(([key]) => model.items[key]);
+  if (known.length === 0) return null;
+
+  const { learningRate: rate, regularization: reg } = DEFAULT_TRAINING_OPTIONS;
+  const user: UserFactors = { bias: 0, vector: new Array(model.factors).fill(0) };
+  for (let epoch = 0; epoch < FOLD_IN_EPOCHS; epoch++) {
+    for (const [key, target] of known) {
+      const [itemBias, ...itemVector] = model.items[key];
+      const error = target - sigmoid(model.globalBias + user.bias + itemBias + dot(user.vector, itemVector));
+      user.bias += rate * (error - reg * user.bias);
+      for (let f = 0; f < model.factors; f++) {
+        user.vector[f] += rate * (error * itemVector[f] - reg * user.vector[f]);
+      }
+    }
+  }
+  return user;
+}
+
+/**
+ * Predict how likely the user is to like a title
+ *
+ * @param model - Trained model
+ * @param user - Factors from foldInUser
+ * @param key - Title to predict for
+ * @returns number | undefined - Probability (0-1), or undefined for titles not in the model
+ */
+export function predictLike(model: MatrixFactorizationModel, user: UserFactors, key: InteractionKey): number | undefined {
+  const item = model.items[key];
+  if (!item) return undefined;
+  const [itemBias, ...itemVector] = item;
+  return sigmoid(model.globalBias + user.bias + itemBias + dot(user.vector, itemVector));
+}
+
+// ==================== PRIVATE FUNCTIONS ====================
+
+function sigmoid(x: number): number {
+  return 1 / (1 + Math.exp(-x));
+}
+
+function logit(p: number): number {
+  return Math.log(p / (1 - p));
+}
+
+function dot(a: number[], b: number[]): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) sum += a[i] * (b[i] ?? 0);
+  return sum;
+}
+
+function round(value: number): number {
+  return Number(value.toFixed(DECIMALS));
+}
+
+// Small seeded PRNG, so training is reproducible
+function mulberry32(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function shuffle<T>(array: T[], random: () => number) {
+  for (let i = array.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [array[i], array[j]] = [array[j], array[i]];
+  }
+}
@@ -8,7 +8,42 @@
  * @version 1.0.0
  */
 
-import { getMovieInteractions, getUserInteractions, MovieInteractionAggregate } from './firebaseDb';
+import type { ExperimentAssignment } from './experiments';
+import { getMovieInteractions, getUserInteractions, MovieInteraction, MovieInteractionAggregate } from './firebaseDb';
+
+/**
+ * Training data for one user, as produced by exportTrainingDataJSON
+ */
+export interface TrainingDataExport {
+  userId: string;
+  interactions: {
+    movieId: number;
+    action: MovieInteraction['action'];
+    timestamp: number;
+    features: {
+      title: string;
+      genres: number[]; // TMDB genre IDs
+      releaseYear: number;
+      popularity: number;
+      isMovie: boolean;
+      decade: number;
+      isRecent: boolean;
+      isPopular: boolean;
+      originalLanguage?: string; // ISO 639-1 code, when recorded
+      runtime?: number; // Minutes (episode runtime for TV shows), when recorded
+    };
+    experiment?: ExperimentAssignment; // Arm the interaction was made in, if any
+  }[];
+  summary: {
+    totalInteractions: number;
+    likedCount: number;
+    dislikedCount: number;
+    watchlistedCount: number;
+    seenCount: number;
+    uniqueMovies: number;
+    dateRange: { earliest: number; latest: number };
+  };
+}
 
 /**
  * Export user interactions in JSON format for ML training
@@ -121,7 +156,7 @@ export async function exportTrainingDataJSON(uid: string): Promise<string> {
   try {
     const interactions = await getUserInteractions(uid);
     
-    const trainingData = {
+    const trainingData: TrainingDataExport = {
       userId: uid,
       interactions: interactions.map(interaction => ({
         movieId: interaction.movieId,
@@ -136,8 +171,11 @@ export async function exportTrainingDataJSON(uid: string): Promise<string> {
           // Derived features for ML
           decade: Math.floor(interaction.movieMetadata.releaseYear / 10) * 10,
           isRecent: interaction.movieMetadata.releaseYear >= 2020,
-          isPopular: interaction.movieMetadata.popularity > 50
-        }
+          isPopular: interaction.movieMetadata.popularity > 50,
+          ...(interaction.movieMetadata.originalLanguage && { originalLanguage: interaction.movieMetadata.originalLanguage }),
+          ...(interaction.movieMetadata.runtime && { runtime: interaction.movieMetadata.runtime })
+        },
+        ...(interaction.experiment && { experiment: interaction.experiment })
       })),
       summary: {
         totalInteractions: interactions.length,
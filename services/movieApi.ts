@@ -9,6 +9,21 @@
  */
 
 import Constants from 'expo-constants';
+import {
+  TMDBAuthError,
+  TMDBHttpError,
+  TMDBMalformedResponseError,
+  TMDBNetworkError,
+  TMDBNotFoundError,
+  TMDBRateLimitError,
+  TMDBTimeoutError,
+  isConnectivityError,
+} from './apiErrors';
+import { DEFAULT_LANGUAGE } from '../constants/Locales';
+import { DEFAULT_REGION } from '../constants/StreamingServices';
+import { connectivityService } from './connectivityService';
+import { DiscoverQuery, discoverMovies, discoverTVShows } from './discoverQuery';
+import { CacheStats, ResponseCache } from './responseCache';
 
 // TMDB API Configuration Constants
 
@@ -17,6 +32,40 @@ import Constants from 'expo-constants';
 const TMDB_BASE_URL = 'https://api.themoviedb.org/3'; // Base URL for TMDB API v3
 const TMDB_IMAGE_BASE_URL = 'https://image.tmdb.org/t/p'; // Base URL for TMDB images
 
+/**
+ * Request Configuration Interface
+ * 
+ * Controls how `makeRequest` retries failed calls. Transient failures
+ * (network errors, timeouts, 429 and 5xx responses) are retried with
+ * exponential backoff and jitter; everything else fails immediately.
+ */
+export interface RequestConfig {
+  maxRetries: number; // Number of retries after the first attempt
+  baseDelayMs: number; // Delay before the first retry, doubled on each subsequent retry
+  maxDelayMs: number; // Upper bound for a single backoff delay (also caps Retry-After)
+  timeoutMs: number; // Per-attempt timeout before the request is aborted
+  jitter: number; // Fraction (0-1) of the delay that is randomized
+}
+
+const DEFAULT_REQUEST_CONFIG: RequestConfig = {
+  maxRetries: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 10000,
+  timeoutMs: 10000,
+  jitter: 0.5,
+};
+
+/**
+ * Content Locale Interface
+ * 
+ * Language and region sent with every request, so titles, overviews, genre
+ * names, release dates and availability match the user's settings.
+ */
+export interface ContentLocale {
+  language: string; // IETF tag TMDB expects for `language` (e.g. 'nb-NO')
+  region: string; // ISO 3166-1 code for `region` and watch providers (e.g. 'NO')
+}
+
 /**
  * Movie Interface
  * 
@@ -38,6 +87,7 @@ export interface Movie {
   original_title: string; // Title in the original language
   popularity: number; // Popularity score
   video: boolean; // Whether the movie has video content
+  runtime?: number | null; // Runtime in minutes; only in details, or where it was looked up
 }
 
 /**
@@ -61,6 +111,7 @@ export interface TVShow {
   original_name: string; // Name in the original language
   popularity: number; // Popularity score
   origin_country: string[]; // Array of country codes where the show originated
+  episode_run_time?: number[]; // Typical episode runtimes in minutes; only in details, or where it was looked up
 }
 
 /**
@@ -109,6 +160,277 @@ export interface GenresResponse {
   genres: Genre[]; // Array of available genres
 }
 
+/**
+ * Language Interface
+ * 
+ * A language TMDB uses for `original_language`, from the configuration API.
+ */
+export interface Language {
+  iso_639_1: string; // ISO 639-1 code (e.g. 'ko')
+  english_name: string; // Name in English (e.g. "Korean")
+  name: string; // Name in the language itself; may be empty
+}
+
+/**
+ * Cast Member Interface
+ * 
+ * An actor credited on a title, as returned in `credits.cast`.
+ */
+export interface CastMember {
+  id: number; // TMDB person ID
+  name: string; // Actor's name
+  character: string; // Character played
+  profile_path: string | null; // Path to the person's profile image
+  order: number; // Billing order (0 is top-billed)
+}
+
+/**
+ * Crew Member Interface
+ * 
+ * A crew member credited on a title, as returned in `credits.crew`.
+ */
+export interface CrewMember {
+  id: number; // TMDB person ID
+  name: string; // Person's name
+  job: string; // Job title (e.g. "Director", "Screenplay")
+  department: string; // Department (e.g. "Directing", "Writing")
+  profile_path: string | null; // Path to the person's profile image
+}
+
+/**
+ * Credits Interface
+ */
+export interface Credits {
+  cast: CastMember[]; // Cast ordered by billing
+  crew: CrewMember[]; // Crew in no particular order
+}
+
+/**
+ * Video Interface
+ * 
+ * A trailer, teaser or clip hosted on an external site.
+ */
+export interface Video {
+  id: string; // TMDB video ID
+  key: string; // Site-specific key (e.g. the YouTube video ID)
+  name: string; // Video title
+  site: string; // Hosting site (e.g. "YouTube", "Vimeo")
+  type: string; // Kind of video (e.g. "Trailer", "Teaser", "Clip")
+  official: boolean; // Whether the video was published by the studio
+  iso_639_1: string; // Language of the video
+  published_at: string; // ISO timestamp of publication
+}
+
+/**
+ * Keyword Interface
+ */
+export interface Keyword {
+  id: number; // TMDB keyword ID
+  name: string; // Keyword text (e.g. "time travel")
+}
+
+/**
+ * External IDs Interface
+ * 
+ * Identifiers for the same title on other sites.
+ */
+export interface ExternalIds {
+  imdb_id: string | null; // IMDb ID (e.g. "tt0137523")
+  tvdb_id?: number | null; // TheTVDB ID (TV only)
+  wikidata_id: string | null; // Wikidata ID
+  facebook_id: string | null; // Facebook page name
+  instagram_id: string | null; // Instagram handle
+  twitter_id: string | null; // Twitter/X handle
+}
+
+/**
+ * Release Date Interface
+ * 
+ * A single release of a movie in one region.
+ */
+export interface ReleaseDate {
+  certification: string; // Age rating (e.g. "PG-13", "15"), may be empty
+  release_date: string; // ISO timestamp of the release
+  type: number; // 1 premiere, 2 limited theatrical, 3 theatrical, 4 digital, 5 physical, 6 TV
+  note: string; // Extra info (e.g. festival name)
+}
+
+/**
+ * TV Season Interface
+ */
+export interface Season {
+  id: number; // TMDB season ID
+  season_number: number; // Season number (0 is usually specials)
+  name: string; // Season name
+  overview: string; // Season description
+  episode_count: number; // Number of episodes
+  air_date: string | null; // First air date in YYYY-MM-DD format
+  poster_path: string | null; // Path to the season poster
+}
+
+/**
+ * Movie Details Interface
+ * 
+ * Full movie record from `/movie/{id}` with credits, videos, keywords,
+ * release dates and external IDs appended in the same request.
+ * Extends Movie so details can be used anywhere a list item is expected.
+ */
+export interface MovieDetails extends Movie {
+  genres: Genre[]; // Genres with names (genre_ids is derived from this)
+  runtime: number | null; // Runtime in minutes
+  tagline: string; // Marketing tagline
+  status: string; // Release status (e.g. "Released")
+  budget: number; // Budget in USD
+  revenue: number; // Revenue in USD
+  imdb_id: string | null; // IMDb ID
+  credits: Credits; // Cast and crew
+  videos: { results: Video[] }; // Trailers, teasers and clips
+  keywords: { keywords: Keyword[] }; // Descriptive keywords
+  release_dates: { results: { iso_3166_1: string; release_dates: ReleaseDate[] }[] }; // Releases per region
+  external_ids: ExternalIds; // IDs on other sites
+}
+
+/**
+ * TV Show Details Interface
+ * 
+ * Full TV show record from `/tv/{id}` with credits, videos, keywords,
+ * content ratings and external IDs appended in the same request.
+ * Extends TVShow so details can be used anywhere a list item is expected.
+ */
+export interface TVShowDetails extends TVShow {
+  genres: Genre[]; // Genres with names (genre_ids is derived from this)
+  episode_run_time: number[]; // Typical episode runtimes in minutes
+  number_of_seasons: number; // Total seasons
+  number_of_episodes: number; // Total episodes
+  status: string; // Production status (e.g. "Returning Series", "Ended")
+  tagline: string; // Marketing tagline
+  last_air_date: string | null; // Most recent air date in YYYY-MM-DD format
+  created_by: { id: number; name: string; profile_path: string | null }[]; // Show creators
+  networks: { id: number; name: string; logo_path: string | null }[]; // Original networks
+  seasons: Season[]; // Seasons, including specials
+  credits: Credits; // Cast and crew of the latest season
+  videos: { results: Video[] }; // Trailers, teasers and clips
+  keywords: { results: Keyword[] }; // Descriptive keywords
+  content_ratings: { results: { iso_3166_1: string; rating: string }[] }; // Age ratings per region
+  external_ids: ExternalIds; // IDs on other sites
+}
+
+/**
+ * Person Credit Interface
+ * 
+ * A single entry in a person's combined movie and TV credits. Cast
+ * entries carry `character`; crew entries carry `job` and `department`.
+ */
+export interface PersonCredit {
+  id: number; // TMDB ID of the title
+  media_type: 'movie' | 'tv'; // Whether the title is a movie or a TV show
+  credit_id: string; // Unique ID of this credit
+  title?: string; // Movie title
+  name?: string; // TV show name
+  overview: string; // Brief description of the title
+  poster_path: string | null; // Path to the title's poster image
+  backdrop_path: string | null; // Path to the title's backdrop image
+  release_date?: string; // Movie release date in YYYY-MM-DD format
+  first_air_date?: string; // TV first air date in YYYY-MM-DD format
+  vote_average: number; // Average rating (0-10)
+  vote_count: number; // Number of votes received
+  genre_ids: number[]; // Array of genre IDs
+  popularity: number; // Popularity score
+  character?: string; // Character played (cast credits)
+  job?: string; // Job title (crew credits)
+  department?: string; // Department (crew credits)
+  episode_count?: number; // Episodes appeared in (TV credits)
+}
+
+/**
+ * Person Details Interface
+ * 
+ * Full person record from `/person/{id}` with combined credits and
+ * external IDs appended.
+ */
+export interface PersonDetails {
+  id: number; // TMDB person ID
+  name: string; // Person's name
+  biography: string; // Biography, may be empty
+  birthday: string | null; // Date of birth in YYYY-MM-DD format
+  deathday: string | null; // Date of death in YYYY-MM-DD format
+  place_of_birth: string | null; // Place of birth
+  profile_path: string | null; // Path to the person's profile image
+  known_for_department: string; // Main department (e.g. "Acting", "Directing")
+  popularity: number; // Popularity score
+  combined_credits: { cast: PersonCredit[]; crew: PersonCredit[] }; // Movie and TV credits
+  external_ids: ExternalIds; // IDs on other sites
+}
+
+/**
+ * Multi-Search Result Types
+ * 
+ * `/search/multi` returns movies, TV shows and people in a single list,
+ * tagged with `media_type`.
+ */
+export type MultiSearchMovie = Movie & { media_type: 'movie' };
+export type MultiSearchTVShow = TVShow & { media_type: 'tv' };
+
+export interface MultiSearchPerson {
+  media_type: 'person';
+  id: number; // TMDB person ID
+  name: string; // Person's name
+  profile_path: string | null; // Path to the person's profile image
+  known_for_department: string; // Main department (e.g. "Acting", "Directing")
+  popularity: number; // Popularity score
+  known_for: (MultiSearchMovie | MultiSearchTVShow)[]; // Titles the person is best known for
+}
+
+export type MultiSearchResult = MultiSearchMovie | MultiSearchTVShow | MultiSearchPerson;
+
+/**
+ * Multi-Search Response Interface
+ * 
+ * Structure of the response from `/search/multi`.
+ */
+export interface MultiSearchResponse {
+  page: number; // Current page number
+  results: MultiSearchResult[]; // Mixed movies, TV shows and people for this page
+  total_pages: number; // Total number of pages available
+  total_results: number; // Total number of results available
+}
+
+/**
+ * Watch Provider Interface
+ * 
+ * A streaming, rental or purchase service offering a title.
+ */
+export interface WatchProvider {
+  provider_id: number; // TMDB provider ID (see constants/StreamingServices.ts)
+  provider_name: string; // Display name (e.g. "Netflix")
+  logo_path: string | null; // Path to the provider's logo image
+  display_priority: number; // Lower numbers are more prominent in the region
+}
+
+/**
+ * Watch Provider Availability Interface
+ * 
+ * How a title can be watched in a single region, grouped by monetization type.
+ */
+export interface WatchProviderAvailability {
+  link: string; // TMDB page listing where to watch
+  flatrate?: WatchProvider[]; // Included in a subscription
+  free?: WatchProvider[]; // Free to watch
+  ads?: WatchProvider[]; // Free with ads
+  rent?: WatchProvider[]; // Available to rent
+  buy?: WatchProvider[]; // Available to buy
+}
+
+/**
+ * Watch Providers Response Interface
+ * 
+ * Structure of the response from `/movie/{id}/watch/providers` and `/tv/{id}/watch/providers`.
+ */
+export interface WatchProvidersResponse {
+  id: number; // TMDB ID of the title
+  results: Record<string, WatchProviderAvailability>; // Availability keyed by ISO 3166-1 region code
+}
+
 /**
  * MovieApiService Class
  * 
@@ -117,14 +439,20 @@ export interface GenresResponse {
  * 
  * Features:
  * - Automatic genre mapping and caching
+ * - Persistent response caching with per-endpoint TTLs
+ * - Offline fallback to cached responses
  * - Error handling for API requests
+ * - Retries with exponential backoff, Retry-After support and per-request timeouts
  * - Image URL generation
  * - Mixed content discovery
  */
 class MovieApiService {
   private apiKey: string; // TMDB API key for authentication
-  private genreMap: Map<number, string> | null = null; // Cached genre ID to name mapping
-  private genreMapFetchedAt: number | null = null; // Timestamp when genre map was last fetched
+  private genreMaps: Map<string, { map: Map<number, string>; fetchedAt: number }> = new Map(); // Genre ID to name mappings per language
+  private locale: ContentLocale = { language: DEFAULT_LANGUAGE, region: DEFAULT_REGION }; // Language and region for all requests
+  private requestConfig: RequestConfig = { ...DEFAULT_REQUEST_CONFIG }; // Retry/backoff/timeout settings
+  private cache: ResponseCache = new ResponseCache(); // Persistent response cache
+  private inFlight: Map<string, Promise<unknown>> = new Map(); // Pending network requests by endpoint
 
   /**
    * Constructor
@@ -148,72 +476,328 @@ class MovieApiService {
     this.apiKey = apiKey;
   }
 
+  /**
+   * Override the retry, backoff and timeout settings used for all requests
+   * 
+   * @param config - Partial configuration merged over the current settings
+   */
+  configureRequests(config: Partial<RequestConfig>): void {
+    this.requestConfig = { ...this.requestConfig, ...config };
+  }
+
+  /**
+   * Get the retry, backoff and timeout settings currently in use
+   * 
+   * @returns RequestConfig - A copy of the active configuration
+   */
+  getRequestConfig(): RequestConfig {
+    return { ...this.requestConfig };
+  }
+
+  /**
+   * Set the language and region used for all subsequent requests
+   * 
+   * Cached responses are keyed by locale, so switching back and forth
+   * doesn't mix languages.
+   * 
+   * @param locale - Partial locale merged over the current one
+   */
+  setLocale(locale: Partial<ContentLocale>): void {
+    this.locale = { ...this.locale, ...locale };
+  }
+
+  /**
+   * Get the language and region currently used for requests
+   * 
+   * @returns ContentLocale - A copy of the active locale
+   */
+  getLocale(): ContentLocale {
+    return { ...this.locale };
+  }
+
+  /**
+   * Get response cache statistics
+   * 
+   * @returns CacheStats - Hit/miss counters and current cache size
+   */
+  getCacheStats(): CacheStats {
+    return this.cache.getStats();
+  }
+
+  /**
+   * Remove all cached TMDB responses
+   */
+  async clearCache(): Promise<void> {
+    await this.cache.clear();
+  }
+
+  /**
+   * Private method to make cached requests to the TMDB API
+   * 
+   * Fresh cache entries are returned directly. Stale entries are returned
+   * immediately while a fresh copy is fetched in the background
+   * (stale-while-revalidate). Misses go to the network and are cached.
+   * 
+   * While offline (or when the network request fails for connectivity
+   * reasons) any cached entry is served, even one past its stale window.
+   * 
+   * The active locale is added to the endpoint first, so it is part of the cache key.
+   * 
+   * @param path - The API endpoint to call (e.g., '/movie/popular')
+   * @returns Promise<T> - The parsed JSON response, from cache or network
+   * @throws TMDBError if there is no usable cache entry and the request fails
+   */
+  private async makeRequest<T>(path: string): Promise<T> {
+    const endpoint = this.localize(path);
+    const isOffline = !connectivityService.isOnline();
+    const cached = await this.cache.get<T>(endpoint, isOffline);
+    
+    if (cached) {
+      if (cached.isStale && !isOffline) {
+        this.fetchAndCache<T>(endpoint).catch((error) => {
+          console.warn(`Background revalidation failed for ${endpoint}:`, error);
+        });
+      }
+      return cached.value;
+    }
+    
+    if (isOffline) {
+      throw new TMDBNetworkError(endpoint, new Error('Device is offline'));
+    }
+    
+    try {
+      return await this.fetchAndCache<T>(endpoint);
+    } catch (error) {
+      if (isConnectivityError(error)) {
+        const expired = await this.cache.get<T>(endpoint, true);
+        if (expired) return expired.value;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Add the active language and region to an endpoint
+   * 
+   * Parameters already present on the endpoint win, so callers can request
+   * a specific language (e.g. English genre names). Appended videos are
+   * requested in the user's language plus English and untagged videos,
+   * since most trailers only exist in English.
+   * 
+   * @param endpoint - The API endpoint path, with or without query string
+   * @returns string - The endpoint with locale parameters
+   */
+  private localize(endpoint: string): string {
+    const params: string[] = [];
+    const has = (name: string) => new RegExp(`[?&]${name}=`).test(endpoint);
+    
+    if (!has('language')) params.push(`language=${encodeURIComponent(this.locale.language)}`);
+    if (!has('region')) params.push(`region=${encodeURIComponent(this.locale.region)}`);
+    if (/[?&]append_to_response=[^&]*videos/.test(endpoint) && !has('include_video_language')) {
+      const languageCode = this.locale.language.split('-')[0];
+      const videoLanguages = languageCode === 'en' ? 'en,null' : `${languageCode},en,null`;
+      params.push(`include_video_language=${videoLanguages}`);
+    }
+    
+    if (params.length === 0) return endpoint;
+    return `${endpoint}${endpoint.includes('?') ? '&' : '?'}${params.join('&')}`;
+  }
+
+  /**
+   * Fetch an endpoint from the network and store the result in the cache
+   * 
+   * Concurrent calls for the same endpoint share a single network request.
+   * 
+   * @param endpoint - The API endpoint to call
+   * @returns Promise<T> - The parsed JSON response
+   */
+  private fetchAndCache<T>(endpoint: string): Promise<T> {
+    const pending = this.inFlight.get(endpoint);
+    if (pending) return pending as Promise<T>;
+    
+    const request = (async () => {
+      try {
+        const data = await this.fetchFromNetwork<T>(endpoint);
+        await this.cache.set(endpoint, data);
+        return data;
+      } finally {
+        this.inFlight.delete(endpoint);
+      }
+    })();
+    
+    this.inFlight.set(endpoint, request);
+    return request;
+  }
+
   /**
    * Private method to make HTTP requests to the TMDB API
    * 
+   * Transient failures (network errors, timeouts, 429 and 5xx responses) are
+   * retried up to `maxRetries` times with exponential backoff and jitter.
+   * A `Retry-After` header on a 429 response takes precedence over the backoff.
+   * 
    * @param endpoint - The API endpoint to call (e.g., '/movie/popular')
    * @returns Promise<T> - The parsed JSON response from the API
-   * @throws Error if the request fails or returns an error status
+   * @throws TMDBError subclass describing why the request failed
    */
-  private async makeRequest<T>(endpoint: string): Promise<T> {
+  private async fetchFromNetwork<T>(endpoint: string): Promise<T> {
     // Determine if we need to add '?' or '&' to append the API key
     const separator = endpoint.includes('?') ? '&' : '?';
     const url = `${TMDB_BASE_URL}${endpoint}${separator}api_key=${this.apiKey}`;
+    const { maxRetries } = this.requestConfig;
     
-    console.log('Making API request to:', url);
+    console.log('Making API request to:', endpoint);
     
-    try {
-      const response = await fetch(url);
+    for (let attempt = 0; ; attempt++) {
+      let response: Response;
       
-      // Handle different HTTP error status codes
+      try {
+        response = await this.fetchWithTimeout(url, endpoint);
+      } catch (error) {
+        // Network failure or timeout - retry if we still have attempts left
+        if (attempt < maxRetries) {
+          const delay = this.getBackoffDelay(attempt);
+          console.warn(`Request to ${endpoint} failed (${error instanceof Error ? error.message : error}), retrying in ${delay}ms`);
+          await this.sleep(delay);
+          continue;
+        }
+        console.error('API request failed:', error);
+        throw error;
+      }
+      
+      // Retry rate-limited and server-side failures
+      const retryAfter = response.status === 429 ? this.parseRetryAfter(response.headers.get('Retry-After')) : null;
+      if ((response.status === 429 || response.status >= 500) && attempt < maxRetries) {
+        const delay = retryAfter ?? this.getBackoffDelay(attempt);
+        console.warn(`Request to ${endpoint} returned ${response.status}, retrying in ${delay}ms (attempt ${attempt + 1}/${maxRetries})`);
+        await this.sleep(delay);
+        continue;
+      }
+      
+      // Map HTTP error status codes to typed errors
       if (!response.ok) {
-        if (response.status === 401) {
-          throw new Error('Invalid API key. Please check your TMDB API key in services/movieApi.ts');
-        } else if (response.status === 404) {
-          console.error(`404 Error - Full URL: ${url}`);
-          console.error(`Endpoint: ${endpoint}`);
-          // For movie/TV endpoints, this might be a missing resource
-          if (endpoint.includes('/movie/')) {
-            throw new Error(`Movie not found: ${endpoint}. This movie may not exist in TMDB database.`);
-          } else if (endpoint.includes('/tv/')) {
-            throw new Error(`TV show not found: ${endpoint}. This TV show may not exist in TMDB database.`);
-          } else {
-            throw new Error(`API endpoint not found: ${endpoint}. Please check the endpoint URL.`);
-          }
-        } else {
-          throw new Error(`HTTP error! status: ${response.status}`);
+        switch (response.status) {
+          case 401:
+            throw new TMDBAuthError(endpoint);
+          case 404:
+            throw new TMDBNotFoundError(endpoint);
+          case 429:
+            throw new TMDBRateLimitError(endpoint, retryAfter);
+          default:
+            throw new TMDBHttpError(endpoint, response.status);
         }
       }
       
       // Parse and return the JSON response
-      return await response.json();
+      let data: unknown;
+      try {
+        data = await response.json();
+      } catch (error) {
+        throw new TMDBMalformedResponseError(endpoint, response.status, error instanceof Error ? error.message : 'invalid JSON');
+      }
+      if (data === null || typeof data !== 'object') {
+        throw new TMDBMalformedResponseError(endpoint, response.status, 'expected a JSON object');
+      }
+      return data as T;
+    }
+  }
+
+  /**
+   * Fetch a URL, aborting the request if it exceeds the configured timeout
+   * 
+   * @param url - Fully qualified URL to fetch
+   * @param endpoint - Endpoint being requested, used for error reporting
+   * @returns Promise<Response> - The raw fetch response
+   * @throws TMDBTimeoutError if the request times out
+   * @throws TMDBNetworkError if the network call fails
+   */
+  private async fetchWithTimeout(url: string, endpoint: string): Promise<Response> {
+    const { timeoutMs } = this.requestConfig;
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+    
+    try {
+      return await fetch(url, { signal: controller.signal });
     } catch (error) {
-      console.error('API request failed:', error);
-      throw error;
+      if (controller.signal.aborted) {
+        throw new TMDBTimeoutError(endpoint, timeoutMs);
+      }
+      throw new TMDBNetworkError(endpoint, error);
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+
+  /**
+   * Calculate the exponential backoff delay for a retry attempt
+   * 
+   * @param attempt - Zero-based index of the attempt that just failed
+   * @returns number - Delay in milliseconds, including random jitter
+   */
+  private getBackoffDelay(attempt: number): number {
+    const { baseDelayMs, maxDelayMs, jitter } = this.requestConfig;
+    const exponential = Math.min(maxDelayMs, baseDelayMs * Math.pow(2, attempt));
+    // Randomize part of the delay so parallel requests don't retry in lockstep
+    const randomized = exponential * (1 - jitter) + Math.random() * exponential * jitter;
+    return Math.round(randomized);
+  }
+
+  /**
+   * Parse a Retry-After header into a delay in milliseconds
+   * 
+   * Supports both the delta-seconds and HTTP-date forms of the header.
+   * 
+   * @param header - Raw header value, or null if absent
+   * @returns number | null - Delay in milliseconds (capped at maxDelayMs), or null if unparseable
+   */
+  private parseRetryAfter(header: string | null): number | null {
+    if (!header) return null;
+    
+    const seconds = Number(header);
+    let delay: number;
+    if (!Number.isNaN(seconds)) {
+      delay = seconds * 1000;
+    } else {
+      const date = Date.parse(header);
+      if (Number.isNaN(date)) return null;
+      delay = date - Date.now();
     }
+    
+    return Math.min(this.requestConfig.maxDelayMs, Math.max(0, delay));
+  }
+
+  /**
+   * Private utility method to wait for the given number of milliseconds
+   */
+  private sleep(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
   }
 
   /**
-   * Ensures the genre map is loaded and cached
+   * Ensures the genre map for a language is loaded and cached
    * 
    * This method fetches genre data from TMDB API and caches it for 24 hours.
    * It combines both movie and TV genres into a single map for easy lookup.
    * The cache prevents unnecessary API calls for genre data.
+   * 
+   * @param language - Language of the genre names (default: the active locale)
+   * @returns Promise<Map<number, string> | null> - Genre ID to name map, or null if it couldn't be loaded
    */
-  private async ensureGenreMap(): Promise<void> {
+  private async ensureGenreMap(language: string = this.locale.language): Promise<Map<number, string> | null> {
     const CACHE_TTL_MS = 24 * 60 * 60 * 1000; // 24 hours in milliseconds
     const now = Date.now();
+    const cached = this.genreMaps.get(language);
     
     // Return early if we have a valid cached genre map
-    if (this.genreMap && this.genreMapFetchedAt && now - this.genreMapFetchedAt < CACHE_TTL_MS) {
-      return;
+    if (cached && now - cached.fetchedAt < CACHE_TTL_MS) {
+      return cached.map;
     }
     
     try {
       // Fetch both movie and TV genres in parallel
       const [movieGenres, tvGenres] = await Promise.all([
-        this.getMovieGenres(),
-        this.getTVGenres(),
+        this.getMovieGenres(language),
+        this.getTVGenres(language),
       ]);
       
       // Create a combined genre map
@@ -222,55 +806,33 @@ class MovieApiService {
       for (const g of tvGenres.genres) map.set(g.id, g.name);
       
       // Update cache
-      this.genreMap = map;
-      this.genreMapFetchedAt = now;
+      this.genreMaps.set(language, { map, fetchedAt: now });
+      return map;
     } catch (e) {
       // On failure, keep prior cache if any; otherwise leave null
       console.error('Failed to fetch genres:', e);
+      return cached?.map ?? null;
     }
   }
 
   /**
-   * Maps genre IDs to their human-readable names
+   * Maps genre IDs to their human-readable names in the active language
    * 
    * @param ids - Array of genre IDs to convert
    * @returns Promise<string[]> - Array of genre names
    */
   async mapGenreIdsToNames(ids: number[]): Promise<string[]> {
-    await this.ensureGenreMap();
-    if (!this.genreMap) return [];
+    const genreMap = await this.ensureGenreMap();
+    if (!genreMap) return [];
     
     const names: string[] = [];
     for (const id of ids) {
-      const name = this.genreMap.get(id);
+      const name = genreMap.get(id);
       if (name) names.push(name);
     }
     return names;
   }
 
-
-  async getGenreNameToIdMap(): Promise<Map<string, number>> {
-    await this.ensureGenreMap();
-    const result = new Map<string, number>();
-    if (!this.genreMap) return result;
-    for (const [id, name] of this.genreMap.entries()) {
-      result.set(name, id);
-    }
-    return result;
-  }
-
-  async mapGenreNamesToIds(names: string[]): Promise<number[]> {
-    await this.ensureGenreMap();
-    if (!this.genreMap) return [];
-    const nameToId = await this.getGenreNameToIdMap();
-    const ids: number[] = [];
-    for (const name of names) {
-      const id = nameToId.get(name);
-      if (typeof id === 'number') ids.push(id);
-    }
-    return ids;
-  }
-
   // Get popular movies
 
   // ==================== MOVIE METHODS ====================
@@ -338,24 +900,37 @@ class MovieApiService {
     return this.makeRequest<TVResponse>(`/trending/tv/week?page=${page}`);
   }
 
-  // ==================== GENRE METHODS ====================
+  // ==================== GENRE AND LANGUAGE METHODS ====================
 
   /**
    * Get available movie genres
    * 
+   * @param language - Language of the genre names (default: the active locale)
    * @returns Promise<GenresResponse> - Response containing movie genres
    */
-  async getMovieGenres(): Promise<GenresResponse> {
-    return this.makeRequest<GenresResponse>('/genre/movie/list');
+  async getMovieGenres(language?: string): Promise<GenresResponse> {
+    const query = language ? `?language=${encodeURIComponent(language)}` : '';
+    return this.makeRequest<GenresResponse>(`/genre/movie/list${query}`);
   }
 
   /**
    * Get available TV show genres
    * 
+   * @param language - Language of the genre names (default: the active locale)
    * @returns Promise<GenresResponse> - Response containing TV show genres
    */
-  async getTVGenres(): Promise<GenresResponse> {
-    return this.makeRequest<GenresResponse>('/genre/tv/list');
+  async getTVGenres(language?: string): Promise<GenresResponse> {
+    const query = language ? `?language=${encodeURIComponent(language)}` : '';
+    return this.makeRequest<GenresResponse>(`/genre/tv/list${query}`);
+  }
+
+  /**
+   * Get the languages TMDB uses for `original_language`
+   * 
+   * @returns Promise<Language[]> - Every language with its English name
+   */
+  async getLanguages(): Promise<Language[]> {
+    return this.makeRequest<Language[]>('/configuration/languages');
   }
 
   // ==================== DETAIL METHODS ====================
@@ -363,21 +938,201 @@ class MovieApiService {
   /**
    * Get detailed information about a specific movie
    * 
+   * Credits, videos, keywords, release dates and external IDs are fetched in
+   * the same request via `append_to_response`.
+   * 
    * @param movieId - The TMDB ID of the movie
-   * @returns Promise<Movie> - Detailed movie information
+   * @returns Promise<MovieDetails> - Detailed movie information
    */
-  async getMovieDetails(movieId: number): Promise<Movie> {
-    return this.makeRequest<Movie>(`/movie/${movieId}`);
+  async getMovieDetails(movieId: number): Promise<MovieDetails> {
+    const details = await this.makeRequest<MovieDetails>(
+      `/movie/${movieId}?append_to_response=credits,videos,keywords,release_dates,external_ids`
+    );
+    return this.withGenreIds(details);
   }
 
   /**
    * Get detailed information about a specific TV show
    * 
+   * Credits, videos, keywords, content ratings and external IDs are fetched
+   * in the same request via `append_to_response`.
+   * 
    * @param tvId - The TMDB ID of the TV show
-   * @returns Promise<TVShow> - Detailed TV show information
+   * @returns Promise<TVShowDetails> - Detailed TV show information
+   */
+  async getTVShowDetails(tvId: number): Promise<TVShowDetails> {
+    const details = await this.makeRequest<TVShowDetails>(
+      `/tv/${tvId}?append_to_response=credits,videos,keywords,content_ratings,external_ids`
+    );
+    return this.withGenreIds(details);
+  }
+
+  /**
+   * Get the age rating of a title in a region
+   * 
+   * For movies the theatrical release is preferred, falling back to any
+   * release in the region that carries a certification.
+   * 
+   * @param details - Movie or TV show details
+   * @param region - ISO 3166-1 region code (e.g. 'NO')
+   * @returns string | null - Certification (e.g. "PG-13", "15") or null if unknown
+   */
+  getCertification(details: MovieDetails | TVShowDetails, region: string): string | null {
+    if ('release_dates' in details) {
+      const releases = details.release_dates?.results.find(r => r.iso_3166_1 === region)?.release_dates ?? [];
+      const rated = releases.filter(r => r.certification);
+      const theatrical = rated.find(r => r.type === 3);
+      return (theatrical ?? rated[0])?.certification ?? null;
+    }
+    return details.content_ratings?.results.find(r => r.iso_3166_1 === region)?.rating || null;
+  }
+
+  /**
+   * Get a title's typical runtime in minutes
+   * 
+   * @param details - Movie or TV show details
+   * @returns number | null - Movie runtime or first listed episode runtime, or null if unknown
+   */
+  getRuntime(details: MovieDetails | TVShowDetails): number | null {
+    if ('runtime' in details) return details.runtime || null;
+    return details.episode_run_time?.[0] ?? null;
+  }
+
+  /**
+   * Get a title's keywords regardless of media type
+   * 
+   * @param details - Movie or TV show details
+   * @returns Keyword[] - Keywords (the response shape differs between movies and TV)
+   */
+  getKeywords(details: MovieDetails | TVShowDetails): Keyword[] {
+    if ('release_dates' in details) return details.keywords?.keywords ?? [];
+    return (details as TVShowDetails).keywords?.results ?? [];
+  }
+
+  /**
+   * Get the playable trailers and teasers for a title
+   * 
+   * Only videos hosted on sites we can embed are returned. Official trailers
+   * come first, then other trailers, then teasers, newest first within each group.
+   * 
+   * @param details - Movie or TV show details
+   * @returns Video[] - Trailers in display order
+   */
+  getTrailers(details: MovieDetails | TVShowDetails): Video[] {
+    const rank = (video: Video) => (video.type === 'Trailer' ? 0 : 2) + (video.official ? 0 : 1);
+    return (details.videos?.results ?? [])
+      .filter(v => (v.site === 'YouTube' || v.site === 'Vimeo') && (v.type === 'Trailer' || v.type === 'Teaser'))
+      .sort((a, b) => rank(a) - rank(b) || b.published_at.localeCompare(a.published_at));
+  }
+
+  /**
+   * Generate an embeddable player URL for a video
+   * 
+   * @param video - A video returned by getTrailers
+   * @param autoplay - Start playing as soon as the player loads (default: true)
+   * @returns string - Player URL, or empty string for unsupported sites
+   */
+  getVideoEmbedUrl(video: Video, autoplay: boolean = true): string {
+    const autoplayParam = autoplay ? 1 : 0;
+    if (video.site === 'YouTube') {
+      return `https://www.youtube.com/embed/${video.key}?autoplay=${autoplayParam}&playsinline=1&rel=0`;
+    }
+    if (video.site === 'Vimeo') {
+      return `https://player.vimeo.com/video/${video.key}?autoplay=${autoplayParam}&playsinline=1`;
+    }
+    return '';
+  }
+
+  /**
+   * Generate a URL for watching a video on its hosting site
+   * 
+   * @param video - A video returned by getTrailers
+   * @returns string - Watch page URL, or empty string for unsupported sites
    */
-  async getTVShowDetails(tvId: number): Promise<TVShow> {
-    return this.makeRequest<TVShow>(`/tv/${tvId}`);
+  getVideoWatchUrl(video: Video): string {
+    if (video.site === 'YouTube') return `https://www.youtube.com/watch?v=${video.key}`;
+    if (video.site === 'Vimeo') return `https://vimeo.com/${video.key}`;
+    return '';
+  }
+
+  // Detail endpoints return `genres` instead of `genre_ids`; fill in the ids list items use
+  private withGenreIds<T extends { genres?: Genre[]; genre_ids?: number[] }>(details: T): T {
+    return { ...details, genre_ids: details.genre_ids ?? (details.genres ?? []).map(g => g.id) };
+  }
+
+  // ==================== PERSON METHODS ====================
+
+  /**
+   * Get detailed information about a person
+   * 
+   * Combined movie and TV credits and external IDs are fetched in the same request.
+   * 
+   * @param personId - The TMDB ID of the person
+   * @returns Promise<PersonDetails> - Person details with combined credits
+   */
+  async getPersonDetails(personId: number): Promise<PersonDetails> {
+    return this.makeRequest<PersonDetails>(`/person/${personId}?append_to_response=combined_credits,external_ids`);
+  }
+
+  /**
+   * Get a person's combined credits as one list, one entry per title
+   * 
+   * A title the person both acted in and worked on appears once; roles are
+   * merged so the entry carries both `character` and `job`.
+   * 
+   * @param person - Person details from getPersonDetails
+   * @returns PersonCredit[] - Credits in no particular order
+   */
+  getFilmography(person: PersonDetails): PersonCredit[] {
+    const byTitle = new Map<string, PersonCredit>();
+    const credits = [...(person.combined_credits?.cast ?? []), ...(person.combined_credits?.crew ?? [])];
+
+    for (const credit of credits) {
+      const key = `${credit.media_type}:${credit.id}`;
+      const existing = byTitle.get(key);
+      if (!existing) {
+        byTitle.set(key, { ...credit });
+        continue;
+      }
+      if (credit.character && !existing.character) existing.character = credit.character;
+      if (credit.job) {
+        existing.job = existing.job ? `${existing.job}, ${credit.job}` : credit.job;
+        existing.department = existing.department ?? credit.department;
+      }
+    }
+
+    return Array.from(byTitle.values());
+  }
+
+  /**
+   * Get the titles a person is best known for
+   * 
+   * Uses credits from the person's main department (acting roles for
+   * actors, crew jobs otherwise), ranked by vote count so established
+   * titles beat recent, briefly popular ones.
+   * 
+   * @param person - Person details from getPersonDetails
+   * @param limit - Maximum number of titles (default: 8)
+   * @returns PersonCredit[] - Best known titles, most notable first
+   */
+  getKnownFor(person: PersonDetails, limit: number = 8): PersonCredit[] {
+    const isActor = person.known_for_department === 'Acting';
+    const credits = isActor
+      ? person.combined_credits?.cast ?? []
+      : (person.combined_credits?.crew ?? []).filter(c => c.department === person.known_for_department);
+
+    const seen = new Set<string>();
+    return [...credits]
+      // Talk shows and award ceremonies dominate vote counts for many actors
+      .filter(c => !(c.media_type === 'tv' && c.genre_ids?.some(id => id === 10767 || id === 10763)))
+      .sort((a, b) => (b.vote_count ?? 0) - (a.vote_count ?? 0))
+      .filter(c => {
+        const key = `${c.media_type}:${c.id}`;
+        if (seen.has(key)) return false;
+        seen.add(key);
+        return true;
+      })
+      .slice(0, limit);
   }
 
   // ==================== SEARCH METHODS ====================
@@ -406,6 +1161,115 @@ class MovieApiService {
     return this.makeRequest<TVResponse>(`/search/tv?query=${encodedQuery}&page=${page}`);
   }
 
+  /**
+   * Search movies, TV shows and people at once
+   * 
+   * @param query - Search query string
+   * @param page - Page number for pagination (default: 1)
+   * @returns Promise<MultiSearchResponse> - Mixed results tagged with `media_type`
+   */
+  async searchMulti(query: string, page: number = 1): Promise<MultiSearchResponse> {
+    const encodedQuery = encodeURIComponent(query);
+    return this.makeRequest<MultiSearchResponse>(`/search/multi?query=${encodedQuery}&page=${page}&include_adult=false`);
+  }
+
+  // ==================== DISCOVER METHODS ====================
+
+  /**
+   * Discover movies matching a set of filters
+   * 
+   * @param query - Query built with `discoverMovies()` from discoverQuery.ts
+   * @returns Promise<MovieResponse> - Response containing matching movies
+   */
+  async discoverMovies(query: DiscoverQuery<'movie'>): Promise<MovieResponse> {
+    return this.makeRequest<MovieResponse>(query.toEndpoint());
+  }
+
+  /**
+   * Discover TV shows matching a set of filters
+   * 
+   * @param query - Query built with `discoverTVShows()` from discoverQuery.ts
+   * @returns Promise<TVResponse> - Response containing matching TV shows
+   */
+  async discoverTVShows(query: DiscoverQuery<'tv'>): Promise<TVResponse> {
+    return this.makeRequest<TVResponse>(query.toEndpoint());
+  }
+
+  // ==================== WATCH PROVIDER METHODS ====================
+
+  /**
+   * Get where a movie can be watched, in every region
+   * 
+   * @param movieId - The TMDB ID of the movie
+   * @returns Promise<WatchProvidersResponse> - Availability keyed by region
+   */
+  async getMovieWatchProviders(movieId: number): Promise<WatchProvidersResponse> {
+    return this.makeRequest<WatchProvidersResponse>(`/movie/${movieId}/watch/providers`);
+  }
+
+  /**
+   * Get where a TV show can be watched, in every region
+   * 
+   * @param tvId - The TMDB ID of the TV show
+   * @returns Promise<WatchProvidersResponse> - Availability keyed by region
+   */
+  async getTVWatchProviders(tvId: number): Promise<WatchProvidersResponse> {
+    return this.makeRequest<WatchProvidersResponse>(`/tv/${tvId}/watch/providers`);
+  }
+
+  /**
+   * Get the services streaming a title in a region (subscription, free or with ads)
+   * 
+   * @param id - The TMDB ID of the title
+   * @param isMovie - Whether the ID refers to a movie or a TV show
+   * @param region - ISO 3166-1 region code (e.g. 'NO')
+   * @returns Promise<WatchProvider[]> - Providers ordered by display priority, without duplicates
+   */
+  async getStreamingProviders(id: number, isMovie: boolean, region: string): Promise<WatchProvider[]> {
+    const response = isMovie ? await this.getMovieWatchProviders(id) : await this.getTVWatchProviders(id);
+    const availability = response.results?.[region];
+    if (!availability) return [];
+    
+    const seen = new Set<number>();
+    const providers: WatchProvider[] = [];
+    for (const provider of [...(availability.flatrate ?? []), ...(availability.free ?? []), ...(availability.ads ?? [])]) {
+      if (seen.has(provider.provider_id)) continue;
+      seen.add(provider.provider_id);
+      providers.push(provider);
+    }
+    return providers.sort((a, b) => a.display_priority - b.display_priority);
+  }
+
+  /**
+   * Get mixed movies and TV shows streaming on any of the given providers
+   * 
+   * Uses the discover endpoints so filtering happens on TMDB's side rather
+   * than by checking providers title by title.
+   * 
+   * @param providerIds - TMDB watch provider IDs
+   * @param region - ISO 3166-1 region code (e.g. 'NO')
+   * @param page - Page number for pagination (default: 1)
+   * @returns Promise<(Movie | TVShow)[]> - Shuffled array of available content
+   */
+  async getContentOnProviders(providerIds: number[], region: string, page: number = 1): Promise<(Movie | TVShow)[]> {
+    if (providerIds.length === 0) return [];
+    
+    const [moviesResult, tvResult] = await Promise.allSettled([
+      this.discoverMovies(discoverMovies().withWatchProviders(providerIds, region).monetizationTypes(['flatrate', 'free', 'ads']).sortBy('popularity').page(page)),
+      this.discoverTVShows(discoverTVShows().withWatchProviders(providerIds, region).monetizationTypes(['flatrate', 'free', 'ads']).sortBy('popularity').page(page)),
+    ]);
+    
+    if (moviesResult.status === 'rejected' && tvResult.status === 'rejected') {
+      throw moviesResult.reason;
+    }
+    
+    const content: (Movie | TVShow)[] = [
+      ...(moviesResult.status === 'fulfilled' ? moviesResult.value.results : []),
+      ...(tvResult.status === 'fulfilled' ? tvResult.value.results : []),
+    ];
+    return this.shuffleArray(content);
+  }
+
   // ==================== RECOMMENDATION METHODS ====================
 
   /**
@@ -436,20 +1300,21 @@ class MovieApiService {
    * Validate if a movie ID exists in TMDB database
    * 
    * @param movieId - The TMDB ID to validate
-   * @returns Promise<boolean> - True if movie exists, false otherwise
+   * @returns Promise<boolean> - True if movie exists, false if TMDB reports it missing
+   * @throws TMDBError for failures other than "not found"
    */
   async validateMovieId(movieId: number): Promise<boolean> {
     try {
-      await this.makeRequest<Movie>(`/movie/${movieId}`);
+      // Uses the details request so a successful validation also warms the cache
+      await this.getMovieDetails(movieId);
       return true;
     } catch (error) {
-      if (error instanceof Error && (error.message.includes('not found') || error.message.includes('Movie not found'))) {
+      if (error instanceof TMDBNotFoundError) {
         console.log(`Movie ID ${movieId} does not exist in TMDB`);
         return false;
       }
-      // For other errors, we'll assume it might exist and let the caller handle it
-      console.warn(`Error validating movie ID ${movieId}:`, error);
-      return false;
+      // For other errors (offline, rate limited, ...) we can't tell - let the caller decide
+      throw error;
     }
   }
 
@@ -457,20 +1322,20 @@ class MovieApiService {
    * Validate if a TV show ID exists in TMDB database
    * 
    * @param tvId - The TMDB ID to validate
-   * @returns Promise<boolean> - True if TV show exists, false otherwise
+   * @returns Promise<boolean> - True if TV show exists, false if TMDB reports it missing
+   * @throws TMDBError for failures other than "not found"
    */
   async validateTVShowId(tvId: number): Promise<boolean> {
     try {
-      await this.makeRequest<TVShow>(`/tv/${tvId}`);
+      await this.getTVShowDetails(tvId);
       return true;
     } catch (error) {
-      if (error instanceof Error && (error.message.includes('not found') || error.message.includes('TV show not found'))) {
+      if (error instanceof TMDBNotFoundError) {
         console.log(`TV show ID ${tvId} does not exist in TMDB`);
         return false;
       }
-      // For other errors, we'll assume it might exist and let the caller handle it
-      console.warn(`Error validating TV show ID ${tvId}:`, error);
-      return false;
+      // For other errors (offline, rate limited, ...) we can't tell - let the caller decide
+      throw error;
     }
   }
 
@@ -479,56 +1344,60 @@ class MovieApiService {
    * 
    * @param id - The TMDB ID to validate
    * @returns Promise<{exists: boolean, type: 'movie' | 'tv' | null}> - Validation result
+   * @throws TMDBError for failures other than "not found"
    */
   async validateContentId(id: number): Promise<{exists: boolean, type: 'movie' | 'tv' | null}> {
-    try {
-      // Try movie first
-      const movieExists = await this.validateMovieId(id);
-      if (movieExists) {
-        return { exists: true, type: 'movie' };
-      }
-      
-      // Try TV show
-      const tvExists = await this.validateTVShowId(id);
-      if (tvExists) {
-        return { exists: true, type: 'tv' };
-      }
-      
-      return { exists: false, type: null };
-    } catch (error) {
-      console.warn(`Error validating content ID ${id}:`, error);
-      return { exists: false, type: null };
+    // Try movie first
+    const movieExists = await this.validateMovieId(id);
+    if (movieExists) {
+      return { exists: true, type: 'movie' };
     }
+    
+    // Try TV show
+    const tvExists = await this.validateTVShowId(id);
+    if (tvExists) {
+      return { exists: true, type: 'tv' };
+    }
+    
+    return { exists: false, type: null };
   }
 
   /**
-   * Filter out invalid movie/TV show IDs from a list
+   * Filter out movies and TV shows that no longer exist in TMDB
+   * 
+   * Items are only dropped when TMDB reports them as missing. If validation
+   * fails for another reason (e.g. offline) the item is kept.
    * 
-   * @param ids - Array of IDs to validate
-   * @returns Promise<number[]> - Array of valid IDs
+   * @param items - Items to validate, each with a TMDB ID and media type
+   * @returns Promise<T[]> - The items that exist, in their original order
    */
-  async filterValidIds(ids: number[]): Promise<number[]> {
-    const validIds: number[] = [];
+  async filterValidContent<T extends { id: number; isMovie: boolean }>(items: T[]): Promise<T[]> {
+    const validItems: T[] = [];
     
     // Process in batches to avoid overwhelming the API
     const batchSize = 5;
-    for (let i = 0; i < ids.length; i += batchSize) {
-      const batch = ids.slice(i, i + batchSize);
-      const validationPromises = batch.map(async (id) => {
-        const result = await this.validateContentId(id);
-        return result.exists ? id : null;
+    for (let i = 0; i < items.length; i += batchSize) {
+      const batch = items.slice(i, i + batchSize);
+      const validationPromises = batch.map(async (item) => {
+        try {
+          const exists = item.isMovie ? await this.validateMovieId(item.id) : await this.validateTVShowId(item.id);
+          return exists ? item : null;
+        } catch (error) {
+          console.warn(`Could not validate ${item.isMovie ? 'movie' : 'TV show'} ID ${item.id}, keeping it:`, error);
+          return item;
+        }
       });
       
       const batchResults = await Promise.all(validationPromises);
-      validIds.push(...batchResults.filter(id => id !== null) as number[]);
+      validItems.push(...batchResults.filter((item): item is Awaited<T> => item !== null));
       
       // Small delay between batches to be respectful to the API
-      if (i + batchSize < ids.length) {
+      if (i + batchSize < items.length) {
         await new Promise(resolve => setTimeout(resolve, 100));
       }
     }
     
-    return validIds;
+    return validItems;
   }
 
   // ==================== UTILITY METHODS ====================
@@ -557,6 +1426,18 @@ class MovieApiService {
     return `${TMDB_IMAGE_BASE_URL}/${size}${path}`;
   }
 
+  /**
+   * Generate a complete image URL for a watch provider logo
+   * 
+   * @param path - The logo path from a WatchProvider
+   * @param size - Image size (w45, w92, w154, original)
+   * @returns string - Complete logo URL or empty string if no path
+   */
+  getLogoUrl(path: string | null, size: 'w45' | 'w92' | 'w154' | 'original' = 'w92'): string {
+    if (!path) return '';
+    return `${TMDB_IMAGE_BASE_URL}/${size}${path}`;
+  }
+
   // ==================== DISCOVERY METHODS ====================
 
   /**
@@ -570,22 +1451,36 @@ class MovieApiService {
    */
   async getMixedContent(page: number = 1): Promise<(Movie | TVShow)[]> {
     try {
-      // Fetch both movies and TV shows in parallel
-      const [moviesResponse, tvResponse] = await Promise.all([
+      // Fetch both movies and TV shows in parallel; one failing source
+      // should not empty the deck, so settle both and keep what succeeded
+      const [moviesResult, tvResult] = await Promise.allSettled([
         this.getPopularMovies(page),
         this.getPopularTVShows(page)
       ]);
 
+      if (moviesResult.status === 'rejected' && tvResult.status === 'rejected') {
+        throw moviesResult.reason;
+      }
+      if (moviesResult.status === 'rejected') {
+        console.warn('Failed to fetch popular movies, continuing with TV shows only:', moviesResult.reason);
+      }
+      if (tvResult.status === 'rejected') {
+        console.warn('Failed to fetch popular TV shows, continuing with movies only:', tvResult.reason);
+      }
+
+      const movies = moviesResult.status === 'fulfilled' ? moviesResult.value.results : [];
+      const tvShows = tvResult.status === 'fulfilled' ? tvResult.value.results : [];
+
       // Mix movies and TV shows alternately
       const mixedContent: (Movie | TVShow)[] = [];
-      const maxItems = Math.max(moviesResponse.results.length, tvResponse.results.length);
+      const maxItems = Math.max(movies.length, tvShows.length);
 
       for (let i = 0; i < maxItems; i++) {
-        if (i < moviesResponse.results.length) {
-          mixedContent.push(moviesResponse.results[i]);
+        if (i < movies.length) {
+          mixedContent.push(movies[i]);
         }
-        if (i < tvResponse.results.length) {
-          mixedContent.push(tvResponse.results[i]);
+        if (i < tvShows.length) {
+          mixedContent.push(tvShows[i]);
         }
       }
 
@@ -0,0 +1,261 @@
+/**
+ * Offline Write Queue
+ *
+ * Persists Firebase writes made while the device is offline and replays
+ * them, in order, once the connection returns. Consecutive preference
+ * updates for the same user are merged into a single write.
+ *
+ * Writes go through `writePreferences` and `writeInteraction`, which only
+ * write directly when nothing is queued. Queued preference writes carry
+ * whole arrays, so a direct write overtaking them would be overwritten by
+ * the stale queued copy when it replays.
+ *
+ * Writes are kept per user: only the signed-in user's writes replay (Firebase
+ * would refuse anyone else's), and another user's writes wait until they
+ * sign in again.
+ *
+ * @author Flicksy Team
+ * @version 1.0.0
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { connectivityService } from './connectivityService';
+import { FirebaseUser, MovieInteraction, recordInteraction, updateUserPreferences } from './firebaseDb';
+
+const STORAGE_KEY = '@flicksy/offline-queue'; // AsyncStorage key holding the queue
+
+/**
+ * A write waiting to be sent to Firebase
+ */
+export type QueuedWrite =
+  | { kind: 'preferences'; uid: string; preferences: Partial<FirebaseUser['preferences']>; queuedAt: number }
+  | { kind: 'interaction'; uid: string; interaction: MovieInteraction; queuedAt: number };
+
+type QueueListener = (pendingCount: number) => void;
+
+/**
+ * OfflineWriteQueue class
+ */
+class OfflineWriteQueue {
+  private queue: QueuedWrite[] = [];
+  private loaded: Promise<void> | null = null; // Pending or completed load from storage
+  private flushing: Promise<number> | null = null; // Pending flush, if any
+  private sending: QueuedWrite | null = null; // Queued write being replayed right now; never merged into
+  private activeUid: string | null = null; // Signed-in user, whose writes replay and count as pending
+  private listeners: Set<QueueListener> = new Set();
+
+  /**
+   * Write a preference update, or queue it behind writes still waiting
+   *
+   * @param uid - User the preferences belong to
+   * @param preferences - Partial preferences, as passed to updateUserPreferences
+   * @throws The write's error if Firebase refused it (e.g. permission denied)
+   */
+  async writePreferences(uid: string, preferences: Partial<FirebaseUser['preferences']>): Promise<void> {
+    await this.write({ kind: 'preferences', uid, preferences, queuedAt: Date.now() });
+  }
+
+  /**
+   * Write an interaction record, or queue it behind writes still waiting
+   *
+   * @param uid - User who made the interaction
+   * @param interaction - Interaction, as passed to recordInteraction
+   * @throws The write's error if Firebase refused it (e.g. permission denied)
+   */
+  async writeInteraction(uid: string, interaction: MovieInteraction): Promise<void> {
+    await this.write({ kind: 'interaction', uid, interaction, queuedAt: Date.now() });
+  }
+
+  /**
+   * Queue a preference update
+   *
+   * @param uid - User the preferences belong to
+   * @param preferences - Partial preferences, as passed to updateUserPreferences
+   */
+  async enqueuePreferences(uid: string, preferences: Partial<FirebaseUser['preferences']>): Promise<void> {
+    await this.load();
+
+    const last = this.queue[this.queue.length - 1];
+    if (last && last !== this.sending && last.kind === 'preferences' && last.uid === uid) {
+      last.preferences = { ...last.preferences, ...preferences };
+      last.queuedAt = Date.now();
+    } else {
+      this.queue.push({ kind: 'preferences', uid, preferences, queuedAt: Date.now() });
+    }
+
+    await this.persist();
+  }
+
+  /**
+   * Queue an interaction record
+   *
+   * @param uid - User who made the interaction
+   * @param interaction - Interaction, as passed to recordInteraction
+   */
+  async enqueueInteraction(uid: string, interaction: MovieInteraction): Promise<void> {
+    await this.load();
+    this.queue.push({ kind: 'interaction', uid, interaction, queuedAt: Date.now() });
+    await this.persist();
+  }
+
+  /**
+   * Set the signed-in user and replay their writes if online
+   *
+   * @param uid - Signed-in user, or null when signed out
+   */
+  setUser(uid: string | null) {
+    this.activeUid = uid;
+    this.notify();
+    if (uid && connectivityService.isOnline()) {
+      this.flush().catch(error => console.warn('Failed to replay queued writes:', error));
+    }
+  }
+
+  /**
+   * Replay the signed-in user's queued writes in order
+   *
+   * Writes Firebase refuses outright are dropped. Any other failure stops
+   * the replay so ordering is preserved; the failed write and everything
+   * after it stay queued for the next flush.
+   *
+   * @returns Promise<number> - Number of writes sent
+   */
+  flush(): Promise<number> {
+    if (!this.flushing) {
+      this.flushing = this.replay().finally(() => {
+        this.flushing = null;
+      });
+    }
+    return this.flushing;
+  }
+
+  /**
+   * Number of the signed-in user's writes waiting to be sent
+   */
+  getPendingCount(): number {
+    return this.activeUid ? this.pendingFor(this.activeUid) : 0;
+  }
+
+  /**
+   * Subscribe to changes in the number of pending writes
+   *
+   * @returns () => void - Function that removes the listener
+   */
+  subscribe(listener: QueueListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // ==================== PRIVATE METHODS ====================
+
+  // Send directly when online with nothing queued; otherwise, or if sending fails for a retryable reason, queue
+  private async write(write: QueuedWrite): Promise<void> {
+    await this.load();
+
+    if (connectivityService.isOnline() && this.pendingFor(write.uid) === 0) {
+      try {
+        await this.send(write);
+        return;
+      } catch (error) {
+        if (!isRetryable(error)) throw error;
+        console.warn('Write failed, queued for retry:', error);
+      }
+    }
+
+    if (write.kind === 'preferences') {
+      await this.enqueuePreferences(write.uid, write.preferences);
+    } else {
+      await this.enqueueInteraction(write.uid, write.interaction);
+    }
+    if (connectivityService.isOnline() && write.uid === this.activeUid) {
+      this.flush().catch(error => console.warn('Failed to replay queued writes:', error));
+    }
+  }
+
+  private async send(write: QueuedWrite): Promise<void> {
+    if (write.kind === 'preferences') {
+      await updateUserPreferences(write.uid, write.preferences);
+    } else {
+      await recordInteraction(write.uid, write.interaction);
+    }
+  }
+
+  private async replay(): Promise<number> {
+    await this.load();
+    let sent = 0;
+
+    let write: QueuedWrite | undefined;
+    while (this.activeUid && (write = this.queue.find(queued => queued.uid === this.activeUid))) {
+      this.sending = write;
+      try {
+        await this.send(write);
+        sent++;
+      } catch (error) {
+        if (isRetryable(error)) {
+          console.warn('Failed to replay queued write, will retry later:', error);
+          break;
+        }
+        console.warn('Dropping queued write that Firebase refused:', error);
+      } finally {
+        this.sending = null;
+      }
+
+      this.queue.splice(this.queue.indexOf(write), 1);
+      await this.persist();
+    }
+
+    if (sent > 0) {
+      console.log(`Replayed ${sent} queued writes`);
+    }
+    return sent;
+  }
+
+  private load(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = (async () => {
+        try {
+          const raw = await AsyncStorage.getItem(STORAGE_KEY);
+          if (raw) {
+            this.queue = [...(JSON.parse(raw) as QueuedWrite[]), ...this.queue];
+            this.notify();
+          }
+        } catch (error) {
+          console.warn('Failed to load offline queue:', error);
+        }
+      })();
+    }
+    return this.loaded;
+  }
+
+  private async persist() {
+    this.notify();
+    try {
+      await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(this.queue));
+    } catch (error) {
+      console.warn('Failed to persist offline queue:', error);
+    }
+  }
+
+  private pendingFor(uid: string): number {
+    return this.queue.filter(write => write.uid === uid).length;
+  }
+
+  private notify() {
+    const pendingCount = this.getPendingCount();
+    for (const listener of this.listeners) {
+      listener(pendingCount);
+    }
+  }
+}
+
+export const offlineQueue = new OfflineWriteQueue();
+
+// ==================== PRIVATE FUNCTIONS ====================
+
+// Writes Firebase refused outright would fail the same way on every retry and block the queue
+function isRetryable(error: unknown): boolean {
+  const code = String((error as { code?: unknown })?.code ?? '').toLowerCase();
+  return !code.includes('permission-denied') && !code.includes('permission_denied');
+}
@@ -0,0 +1,223 @@
+/**
+ * Preference Key Migration
+ *
+ * Older user records store liked, disliked, watchlisted and seen titles as
+ * bare TMDB IDs. Movie and TV IDs overlap, so those lists are rewritten to
+ * composite keys ("movie_550", "tv_1399") the first time a user with legacy
+ * entries logs in.
+ *
+ * Each legacy ID is resolved from the user's own interaction history, which
+ * already records the media type, and only falls back to asking TMDB when
+ * the history is missing or ambiguous. IDs that TMDB has as both a movie
+ * and a TV show are filed as movies, the order the old lookup tried them in.
+ *
+ * Favorite genres used to be stored as English genre names and are
+ * rewritten to genre catalog IDs in the same way.
+ *
+ * @author Flicksy Team
+ * @version 1.0.0
+ */
+
+import { isConnectivityError } from './apiErrors';
+import {
+  FirebaseUser,
+  generateInteractionKey,
+  getUserInteractions,
+  InteractionKey,
+  isInteractionKey,
+  MovieInteraction,
+  updateUserPreferences,
+} from './firebaseDb';
+import { movieApi } from './movieApi';
+
+type Preferences = FirebaseUser['preferences'];
+
+// Preference lists that hold title references, and the interaction action recorded for each
+const KEYED_LISTS: { list: 'likedMovies' | 'dislikedMovies' | 'watchlist' | 'seen'; action: MovieInteraction['action'] }[] = [
+  { list: 'likedMovies', action: 'liked' },
+  { list: 'dislikedMovies', action: 'disliked' },
+  { list: 'watchlist', action: 'watchlisted' },
+  { list: 'seen', action: 'seen' },
+];
+
+// Genre names the app offered before the genre catalog, and their catalog IDs
+const LEGACY_GENRE_IDS: Record<string, number> = {
+  'Action': 28,
+  'Adventure': 12,
+  'Animation': 16,
+  'Comedy': 35,
+  'Crime': 80,
+  'Documentary': 99,
+  'Drama': 18,
+  'Family': 10751,
+  'Fantasy': 14,
+  'History': 36,
+  'Horror': 27,
+  'Music': 10402,
+  'Mystery': 9648,
+  'Romance': 10749,
+  'Science Fiction': 878,
+  'TV Movie': 10770,
+  'Thriller': 53,
+  'War': 10752,
+  'Western': 37,
+};
+
+/**
+ * Result of a migration attempt
+ */
+export interface PreferenceMigrationResult {
+  preferences: Preferences; // Preferences with every list converted to composite keys
+  persisted: boolean; // False if nothing was written or some IDs are left for the next login
+}
+
+/**
+ * Check whether any title list still contains legacy bare IDs
+ */
+export function needsKeyMigration(preferences: Partial<Preferences> | undefined): boolean {
+  if (!preferences) return false;
+  return KEYED_LISTS.some(({ list }) => (preferences[list] ?? []).some(entry => !isInteractionKey(entry)));
+}
+
+/**
+ * Convert a user's title lists to composite keys and save them
+ *
+ * IDs that TMDB reports as missing are dropped. Resolved keys are saved
+ * even if TMDB couldn't be reached for some IDs; those stay stored as bare
+ * IDs, are treated as movies for this session, and are retried on the next
+ * login. The converted preferences are always returned, so callers never
+ * see bare IDs.
+ *
+ * @param uid - User whose preferences are migrated
+ * @param preferences - Preferences as loaded from the database
+ * @returns Promise<PreferenceMigrationResult> - Converted preferences and whether they were saved
+ */
+export async function migratePreferenceKeys(uid: string, preferences: Preferences): Promise<PreferenceMigrationResult> {
+  let interactions: MovieInteraction[] = [];
+  try {
+    interactions = await getUserInteractions(uid);
+  } catch (error) {
+    console.warn('Could not load interaction history for migration:', error);
+  }
+
+  const updates: Partial<Preferences> = {};
+  const session: Partial<Preferences> = {};
+  let isComplete = true;
+
+  for (const { list, action } of KEYED_LISTS) {
+    const entries = (preferences[list] ?? []) as unknown[];
+    if (entries.every(isInteractionKey)) continue;
+
+    const stored = new Set<InteractionKey | number>(); // Bare IDs stay stored until TMDB can be reached
+    const keys = new Set<InteractionKey>();
+    for (const entry of entries) {
+      if (isInteractionKey(entry)) {
+        stored.add(entry);
+        keys.add(entry);
+        continue;
+      }
+
+      const id = Number(entry);
+      if (!Number.isFinite(id)) continue;
+
+      const resolved = await resolveLegacyId(id, action, interactions);
+      if (resolved === 'unreachable') {
+        isComplete = false;
+        stored.add(id);
+        keys.add(generateInteractionKey(id, true));
+      } else if (resolved) {
+        stored.add(resolved);
+        keys.add(resolved);
+      }
+    }
+    updates[list] = Array.from(stored) as InteractionKey[];
+    session[list] = Array.from(keys);
+  }
+
+  const migrated = { ...preferences, ...session };
+  if (!isComplete) {
+    console.warn('Could not reach TMDB for every legacy preference ID; the rest will be retried on next login');
+  }
+
+  try {
+    await updateUserPreferences(uid, updates);
+    console.log(`Migrated preference keys for user ${uid}`);
+    return { preferences: migrated, persisted: isComplete };
+  } catch (error) {
+    console.warn('Failed to save migrated preference keys:', error);
+    return { preferences: migrated, persisted: false };
+  }
+}
+
+/**
+ * Check whether favorite genres are still stored as names
+ */
+export function needsGenreMigration(preferences: Partial<Preferences> | undefined): boolean {
+  return (preferences?.genres ?? []).some(genre => typeof genre !== 'number');
+}
+
+/**
+ * Convert favorite genre names to catalog IDs and save them
+ *
+ * Names outside the legacy list are dropped. Unlike title keys this needs
+ * no network, so the converted list is always returned.
+ *
+ * @param uid - User whose preferences are migrated
+ * @param preferences - Preferences as loaded from the database
+ * @returns Promise<PreferenceMigrationResult> - Converted preferences and whether they were saved
+ */
+export async function migrateGenrePreferences(uid: string, preferences: Preferences): Promise<PreferenceMigrationResult> {
+  const genres = new Set<number>();
+  for (const genre of (preferences.genres ?? []) as unknown[]) {
+    if (typeof genre === 'number') {
+      genres.add(genre);
+    } else if (typeof genre === 'string' && genre in LEGACY_GENRE_IDS) {
+      genres.add(LEGACY_GENRE_IDS[genre]);
+    }
+  }
+
+  const migrated = { ...preferences, genres: Array.from(genres) };
+  try {
+    await updateUserPreferences(uid, { genres: migrated.genres });
+    console.log(`Migrated genre preferences for user ${uid}`);
+    return { preferences: migrated, persisted: true };
+  } catch (error) {
+    console.warn('Failed to save migrated genre preferences:', error);
+    return { preferences: migrated, persisted: false };
+  }
+}
+
+// ==================== PRIVATE FUNCTIONS ====================
+
+/**
+ * Work out the media type of a legacy ID
+ *
+ * @returns The composite key (a movie if TMDB has both a movie and a TV show with the ID),
+ *   null if the title no longer exists, or 'unreachable' if TMDB couldn't be reached
+ */
+async function resolveLegacyId(
+  id: number,
+  action: MovieInteraction['action'],
+  interactions: MovieInteraction[]
+): Promise<InteractionKey | null | 'unreachable'> {
+  const matching = interactions.filter(i => i.movieId === id && i.movieMetadata);
+  // Prefer the interaction recorded for the same list (e.g. 'watchlisted' for the watchlist)
+  const candidates = matching.some(i => i.action === action) ? matching.filter(i => i.action === action) : matching;
+  const types = new Set(candidates.map(i => i.movieMetadata.isMovie));
+
+  if (types.size === 1) {
+    return generateInteractionKey(id, candidates[0].movieMetadata.isMovie);
+  }
+
+  try {
+    const [movieExists, tvExists] = await Promise.all([movieApi.validateMovieId(id), movieApi.validateTVShowId(id)]);
+    if (movieExists && tvExists) {
+      console.warn(`Legacy preference ID ${id} is both a movie and a TV show; keeping it as a movie`);
+    }
+    return movieExists || tvExists ? generateInteractionKey(id, movieExists) : null;
+  } catch (error) {
+    if (isConnectivityError(error)) return 'unreachable';
+    console.warn(`Could not resolve legacy preference ID ${id}; keeping it as a movie:`, error);
+    return generateInteractionKey(id, true);
+  }
+}
@@ -0,0 +1,234 @@
+/**
+ * Recommendation Evaluation
+ *
+ * Offline evaluation of scoring strategies against exported interactions
+ * (the `exportTrainingDataJSON` format from mlDataService.ts). Each user's
+ * history is split by time: a scorer learns from the older interactions and
+ * ranks a fixed catalog of TMDB titles, and the ranking is judged by which
+ * titles the user went on to like or watchlist.
+ *
+ * Metrics, averaged over users with at least one positive test interaction:
+ * - precision@k: share of the top k that the user liked
+ * - recall@k: share of the user's later likes that made the top k
+ * - NDCG@k: like recall, but hits near the top count more
+ * - coverage: share of the catalog that made anyone's top k
+ *
+ * Uses no app services, so it runs under Node (see
+ * scripts/evaluate-recommendations.ts).
+ *
+ * @author Flicksy Team
+ * @version 1.0.0
+ */
+
+import type { InteractionKey } from './firebaseDb';
+import { generateInteractionKey } from './interactionKeys';
+import type { TrainingDataExport } from './mlDataService';
+import type { Movie, TVShow } from './movieApi';
+import { Scorer, totalScore } from './scorers';
+import { TasteProfile } from './tasteProfile';
+
+export type EvaluationInteraction = TrainingDataExport['interactions'][number];
+
+/**
+ * Catalog of titles to rank, in the shape of TMDB list responses
+ */
+export interface TmdbFixture {
+  movies: Movie[];
+  tvShows: TVShow[];
+}
+
+/**
+ * A scoring strategy under evaluation
+ */
+export interface EvaluationScorer {
+  name: string; // Shown in the results
+  /**
+   * Learn from one user's training interactions, oldest first, and return
+   * a function scoring titles for that user (higher is better)
+   */
+  train(history: EvaluationInteraction[]): (item: Movie | TVShow) => number;
+}
+
+/**
+ * Evaluation settings
+ */
+export interface EvaluationOptions {
+  k: number; // Length of the recommendation list
+  trainFraction: number; // Share of each user's history, oldest first, to learn from (0-1)
+}
+
+/**
+ * Metrics for one scorer
+ */
+export interface EvaluationResult {
+  scorer: string; // EvaluationScorer.name
+  users: number; // Users with at least one positive test interaction in the catalog
+  precisionAtK: number;
+  recallAtK: number;
+  ndcgAtK: number;
+  coverage: number;
+}
+
+export const DEFAULT_EVALUATION_OPTIONS: EvaluationOptions = { k: 10, trainFraction: 0.8 };
+
+// Test interactions that count as a hit
+const POSITIVE_ACTIONS: EvaluationInteraction['action'][] = ['liked', 'watchlisted'];
+
+// ==================== SCORERS ====================
+
+/**
+ * Evaluate one of the app's scorers (see scorers.ts)
+ *
+ * Explicit genre picks and collaborative scores aren't part of the export,
+ * so only learned weights count. Weights are decayed to the time of the
+ * last training interaction.
+ */
+export function fromAppScorer(scorer: Scorer): EvaluationScorer {
+  return {
+    name: scorer.id,
+    train(history) {
+      const profile = new TasteProfile();
+      for (const interaction of history) {
+        profile.learn(interaction.action, interaction.features, interaction.timestamp);
+      }
+      if (history.length > 0) profile.decayTo(history[history.length - 1].timestamp);
+
+      return item => totalScore(scorer.getScoreFactors(item, { profile }));
+    },
+  };
+}
+
+/**
+ * Baseline: most popular first, the same for every user
+ */
+export const popularityScorer: EvaluationScorer = {
+  name: 'popularity',
+  train: () => item => item.popularity,
+};
+
+/**
+ * Baseline: highest rated first, the same for every user
+ */
+export const ratingScorer: EvaluationScorer = {
+  name: 'rating',
+  train: () => item => item.vote_average,
+};
+
+// ==================== EVALUATION ====================
+
+/**
+ * Like-rate per experiment arm, from the arms recorded on interactions
+ *
+ * @param exports - One training data export per user
+ * @returns Interactions, likes (liked or watchlisted) and like-rate per arm,
+ *   keyed by "experimentId/arm"; interactions without an arm are left out
+ */
+export function likeRatesByArm(
+  exports: TrainingDataExport[]
+): Record<string, { interactions: number; likes: number; likeRate: number }> {
+  const rates: Record<string, { interactions: number; likes: number; likeRate: number }> = {};
+  for (const interaction of exports.flatMap(userExport => userExport.interactions)) {
+    if (!interaction.experiment) continue;
+    const arm = `${interaction.experiment.experimentId}/${interaction.experiment.arm}`;
+    const entry = rates[arm] ?? (rates[arm] = { interactions: 0, likes: 0, likeRate: 0 });
+    entry.interactions++;
+    if (POSITIVE_ACTIONS.includes(interaction.action)) entry.likes++;
+    entry.likeRate = entry.likes / entry.interactions;
+  }
+  return rates;
+}
+
+/**
+ * Split one user's interactions by time
+ *
+ * @param interactions - The user's interactions, in any order
+ * @param trainFraction - Share to put in the training set (0-1)
+ * @returns The older interactions to learn from and the newer ones to test against
+ */
+export function temporalSplit(
+  interactions: EvaluationInteraction[],
+  trainFraction: number
+): { train: EvaluationInteraction[]; test: EvaluationInteraction[] } {
+  const sorted = [...interactions].sort((a, b) => a.timestamp - b.timestamp);
+  const cut = Math.floor(sorted.length * Math.max(0, Math.min(1, trainFraction)));
+  return { train: sorted.slice(0, cut), test: sorted.slice(cut) };
+}
+
+/**
+ * Evaluate scorers against exported interactions
+ *
+ * @param exports - One training data export per user
+ * @param fixture - Titles to rank; test likes outside it can't be hit and are ignored
+ * @param scorers - Strategies to compare
+ * @param options - List length and train/test split
+ * @returns EvaluationResult[] - One result per scorer, in the order given
+ */
+export function evaluateScorers(
+  exports: TrainingDataExport[],
+  fixture: TmdbFixture,
+  scorers: EvaluationScorer[],
+  options: EvaluationOptions = DEFAULT_EVALUATION_OPTIONS
+): EvaluationResult[] {
+  const catalog = new Map<InteractionKey, Movie | TVShow>();
+  for (const movie of fixture.movies) catalog.set(generateInteractionKey(movie.id, true), movie);
+  for (const show of fixture.tvShows) catalog.set(generateInteractionKey(show.id, false), show);
+
+  return scorers.map(scorer => {
+    const totals = { users: 0, precision: 0, recall: 0, ndcg: 0 };
+    const recommended = new Set<InteractionKey>();
+
+    for (const userExport of exports) {
+      const { train, test } = temporalSplit(userExport.interactions, options.trainFraction);
+      const relevant = new Set(
+        test
+          .filter(interaction => POSITIVE_ACTIONS.includes(interaction.action))
+          .map(interaction => generateInteractionKey(interaction.movieId, interaction.features.isMovie))
+          .filter(key => catalog.has(key))
+      );
+      if (relevant.size === 0) continue;
+
+      // Titles the user already swiped in training can't be recommended again
+      const seen = new Set(train.map(interaction => generateInteractionKey(interaction.movieId, interaction.features.isMovie)));
+      const score = scorer.train(train);
+      const ranked = Array.from(catalog.entries())
+        .filter(([key]) => !seen.has(key))
+        .map(([key, item]) => ({ key, score: score(item) }))
+        // Break ties by key so runs are repeatable
+        .sort((a, b) => b.score - a.score || a.key.localeCompare(b.key))
+        .slice(0, options.k)
+        .map(entry => entry.key);
+
+      ranked.forEach(key => recommended.add(key));
+      const hits = ranked.filter(key => relevant.has(key)).length;
+      totals.users++;
+      totals.precision += hits / options.k;
+      totals.recall += hits / relevant.size;
+      totals.ndcg += ndcg(ranked, relevant, options.k);
+    }
+
+    const users = totals.users;
+    return {
+      scorer: scorer.name,
+      users,
+      precisionAtK: users > 0 ? totals.precision / users : 0,
+      recallAtK: users > 0 ? totals.recall / users : 0,
+      ndcgAtK: users > 0 ? totals.ndcg / users : 0,
+      coverage: catalog.size > 0 ? recommended.size / catalog.size : 0,
+    };
+  });
+}
+
+// ==================== PRIVATE FUNCTIONS ====================
+
+// Normalized discounted cumulative gain with binary relevance
+function ndcg(ranked: InteractionKey[], relevant: Set<InteractionKey>, k: number): number {
+  let dcg = 0;
+  ranked.forEach((key, index) => {
+    if (relevant.has(key)) dcg += 1 / Math.log2(index + 2);
+  });
+  let ideal = 0;
+  for (let index = 0; index < Math.min(relevant.size, k); index++) {
+    ideal += 1 / Math.log2(index + 2);
+  }
+  return ideal > 0 ? dcg / ideal : 0;
+}
@@ -7,25 +7,159 @@
  * Features:
  * - Genre-based recommendations
  * - Content type preferences (movies vs TV shows)
- * - Learning from user interactions
+ * - Candidates from several sources (trending, top rated, similar, genres, new releases)
+ * - Diversity-aware re-ranking and adaptive exploration outside the user's profile
+ * - Item-item collaborative filtering blended into the content-based score
+ * - Pluggable scorers, picked per user by an A/B experiment (see experiments.ts)
+ * - Matrix factorization model trained offline, with heuristic fallback for cold-start titles
+ * - Incremental learning from each new interaction, persisted per user
+ * - Recency decay with a configurable half-life, so taste can drift over time
+ * - Onboarding taste quiz answers as a starting point for new users
+ * - Learned affinity for original language and release decade, and for runtime
+ *   band where a title's runtime is known (see titleFeatures.ts)
  * - Error handling and fallback mechanisms
  * 
  * @author Flicksy Team
  * @version 1.0.0
  */
 
+import { Candidate, CandidateAttribution, generateCandidates } from './candidateGenerator';
+import { collaborativeFilter, CollaborativeScore } from './collaborativeFilter';
+import { rerankForDiversity } from './diversityRanker';
+import { generateInteractionKey, getContentKey, getUserInteractions, InteractionKey, MovieInteraction, parseInteractionKey } from './firebaseDb';
+import { loadGenreCatalog, toCatalogGenreIds } from './genreCatalog';
+import { foldInUser, isUsableModel, MatrixFactorizationModel, predictLike, UserFactors } from './matrixFactorization';
 import { Movie, TVShow, movieApi } from './movieApi';
+import { loadTasteModel, saveTasteModel, TASTE_MODEL_VERSION, TasteModelState, TasteSeed } from './tasteModelStore';
+import bundledMatrixFactorizationModel from '../assets/models/mf-model.json';
+import { assignArm, ExperimentAssignment, SCORER_EXPERIMENT } from './experiments';
+import { heuristicScorer, ScoreFactor, Scorer, SCORERS, totalScore } from './scorers';
+import { DEFAULT_TASTE_HALF_LIFE_DAYS, TasteProfile } from './tasteProfile';
+import { AffinityDimension, getAffinityValues, getTitleFeatures, RuntimeBand } from './titleFeatures';
+
+export { DEFAULT_TASTE_HALF_LIFE_DAYS } from './tasteProfile';
+export type { ScoreFactor } from './scorers';
 
 /**
  * User preferences interface for recommendation system
  */
 export interface UserPreferences {
-  genres: string[]; // User's preferred genres
-  likedMovies: number[]; // Array of liked movie IDs
-  dislikedMovies: number[]; // Array of disliked movie IDs
-  watchlist: number[]; // Array of watchlist item IDs
+  genres: number[]; // User's preferred genres as catalog IDs
+  likedMovies: InteractionKey[]; // Liked movies and TV shows, e.g. "movie_550"
+  dislikedMovies: InteractionKey[]; // Disliked movies and TV shows
+  watchlist: InteractionKey[]; // Watchlisted movies and TV shows
+  seen?: InteractionKey[]; // Titles marked as seen, left out of recommendations
+  diversity?: number; // 0-1, how strongly decks are spread across genres, types, decades and languages
+  explorationRate?: number; // 0-1, share of each deck picked from outside the user's profile
+  tasteHalfLifeDays?: number; // Days until an interaction counts half as much; 0 never forgets
+}
+
+/**
+ * The main reason a title is recommended
+ */
+export type RecommendationReason =
+  | { kind: 'similar'; seedKey: InteractionKey; seedTitle: string } // Recommended by TMDB for a liked title
+  | { kind: 'collaborative'; seedKey: InteractionKey; seedTitle: string } // Liked by users who liked the same title
+  | { kind: 'genre'; genreId: number; genreName: string } // In one of the user's top genres
+  | { kind: 'language'; language: string; languageName: string } // In a language the user often likes
+  | { kind: 'decade'; decade: number } // From a decade the user often likes
+  | { kind: 'runtime'; band: Exclude<RuntimeBand, 'standard'>; isMovie: boolean } // As short or long as the user likes
+  | { kind: 'new_release' }
+  | { kind: 'trending' }
+  | { kind: 'top_rated' }
+  | { kind: 'popular' }
+  | { kind: 'explore' }; // Picked from outside the user's profile on purpose
+
+/**
+ * Why a title was recommended, for display on the card
+ */
+export interface RecommendationExplanation {
+  reason: RecommendationReason; // Headline reason shown as a badge
+  factors: ScoreFactor[]; // Terms of the score, largest first
+  score: number; // Result of scoreContent (0-10)
+}
+
+/**
+ * A recommendation candidate with its score and explanation
+ */
+export interface ScoredCandidate extends Candidate {
+  score: number; // Result of scoreContent (0-10)
+  explanation: RecommendationExplanation; // Why the candidate is recommended
+}
+
+// Candidate sources in the order they are preferred as the headline reason
+const REASON_PRIORITY: CandidateAttribution['source'][] = ['similar', 'collaborative', 'genre', 'new_release', 'trending', 'top_rated', 'popular'];
+
+/**
+ * Turn a reason into the text shown on the card
+ * 
+ * @param reason - Reason from a RecommendationExplanation
+ * @param providerName - One of the user's services streaming the title, if known
+ * @returns string - e.g. "Because you liked Dune" or "New on Netflix"
+ */
+export function describeReason(reason: RecommendationReason, providerName?: string): string {
+  switch (reason.kind) {
+    case 'similar':
+      return `Because you liked ${reason.seedTitle}`;
+    case 'collaborative':
+      return `Fans of ${reason.seedTitle} liked this`;
+    case 'genre':
+      return `Top pick in ${reason.genreName}`;
+    case 'language':
+      return `Because you like ${reason.languageName} titles`;
+    case 'decade':
+      return `Because you like the ${reason.decade}s`;
+    case 'runtime':
+      if (reason.isMovie) return reason.band === 'short' ? 'Because you like shorter movies' : 'Because you like long movies';
+      return reason.band === 'short' ? 'Because you like short episodes' : 'Because you like long episodes';
+    case 'new_release':
+      return providerName ? `New on ${providerName}` : 'New release';
+    case 'trending':
+      return 'Trending this week';
+    case 'top_rated':
+      return 'Highly rated';
+    case 'popular':
+      return providerName ? `Popular on ${providerName}` : 'Popular right now';
+    case 'explore':
+      return 'Something different';
+  }
 }
 
+/**
+ * How a title was rated in the onboarding taste quiz
+ */
+export type TasteQuizAnswer = 'love' | 'like' | 'meh' | 'unseen';
+
+// How much each quiz answer moves the genre and type weights; a love counts as two likes
+export const TASTE_QUIZ_WEIGHTS: Record<TasteQuizAnswer, number> = {
+  love: 2,
+  like: 1,
+  meh: -0.5,
+  unseen: 0,
+};
+
+// Ranking defaults for users who haven't tuned them
+export const DEFAULT_DIVERSITY = 0.3;
+export const DEFAULT_EXPLORATION_RATE = 0.1;
+
+// How far back "reset recent mood" forgets interactions
+export const RECENT_MOOD_DAYS = 14;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Exploration picks need at least this rating, so "different" doesn't mean "bad"
+const MIN_EXPLORATION_RATING = 6.5;
+
+// Collaborative picks fetched from TMDB when no other source produced them
+const MAX_COLLABORATIVE_CANDIDATES = 10;
+
+// An affinity is the headline reason once it holds this share of at least this much weight
+const AFFINITY_REASON_SHARE = 0.5;
+const AFFINITY_REASON_MIN_WEIGHT = 3;
+
+// Affinities in the order they are preferred as the headline reason
+const AFFINITY_REASON_PRIORITY: AffinityDimension[] = ['language', 'decade', 'runtime'];
+
 /**
  * RecommendationService class
  * 
@@ -35,283 +169,567 @@ export interface UserPreferences {
 export class RecommendationService {
   // ==================== PRIVATE PROPERTIES ====================
   
-  private genreWeights: Map<string, number> = new Map(); // Genre preference weights
-  private typePreference: { movies: number; tvShows: number } = { movies: 0, tvShows: 0 }; // Content type preferences
-  private learningEnabled: boolean = true; // Whether to learn from user interactions
-  private errorCount: number = 0; // Track consecutive errors
-  private maxErrors: number = 5; // Maximum errors before disabling learning
-  private invalidIds: Set<number> = new Set(); // Track IDs that don't exist in TMDB
+  private profile: TasteProfile = new TasteProfile(); // Learned genre and type weights
+  private moodResets: { from: number; to: number }[] = []; // Interaction time ranges the user asked to forget
+  private quizSeeds: TasteSeed[] = []; // Taste quiz answers, relearned on rebuild
+  private modelUserId: string | null = null; // User the loaded model belongs to
+  private modelLoading: Promise<void> | null = null; // In-flight model load
+  private exploration: { liked: number; disliked: number } = { liked: 0, disliked: 0 }; // How exploration picks were received
+  private exploredKeys: Set<InteractionKey> = new Set(); // Exploration picks handed out and not yet swiped
+  private collaborativeScores: Map<InteractionKey, CollaborativeScore> = new Map(); // Latest item-item scores for the user
+  private scorer: Scorer = heuristicScorer; // Scorer ranking the user's deck, from their arm in SCORER_EXPERIMENT
+  private mfModel: MatrixFactorizationModel | null = null; // Trained matrix factorization model, if one is usable
+  private userFactors: UserFactors | null = null; // The user's factors in mfModel
+  private userFactorsFeedback: string = ''; // Feedback userFactors were fitted to, to skip refitting
+
+  constructor() {
+    this.loadMatrixFactorizationModel(bundledMatrixFactorizationModel as MatrixFactorizationModel);
+  }
 
   // ==================== PUBLIC METHODS ====================
   
   /**
-   * Update user preferences and learn from their choices
+   * Update the explicit preferences used alongside the learned model
    * 
-   * This method processes user preferences to improve future recommendations.
-   * It learns from both liked and disliked content to build a preference profile.
+   * Liked and disliked titles are not re-processed here; they are learned
+   * once, as they happen, through `learnFromInteraction`.
    * 
    * @param preferences - User's current preferences
    */
   updatePreferences(preferences: UserPreferences) {
-    // Only learn from preferences if there are valid items and learning is enabled
-    if (this.learningEnabled && preferences.likedMovies && preferences.likedMovies.length > 0) {
-      this.learnFromLikedContent(preferences.likedMovies);
+    this.profile.setExplicitGenres(preferences.genres || []);
+
+    // Weights decayed with another half-life can't be converted, so relearn them
+    const halfLifeDays = preferences.tasteHalfLifeDays ?? DEFAULT_TASTE_HALF_LIFE_DAYS;
+    if (this.modelUserId && !this.modelLoading && halfLifeDays !== this.profile.halfLifeDays) {
+      this.profile.setHalfLifeDays(halfLifeDays);
+      this.rebuildModel(this.modelUserId)
+        .catch(error => console.warn('Could not relearn taste model with new half-life:', error));
     }
-    if (this.learningEnabled && preferences.dislikedMovies && preferences.dislikedMovies.length > 0) {
-      this.learnFromDislikedContent(preferences.dislikedMovies);
+  }
+
+  /**
+   * Load a user's learned model
+   * 
+   * Uses the newest saved model from this device or Firebase. A user without
+   * a usable saved model gets one rebuilt from their interaction history,
+   * keeping the quiz answers, mood resets and exploration counts of a model
+   * saved with an older version. Calling this again for the user whose
+   * model is already loaded does nothing.
+   * 
+   * @param uid - User whose model to load
+   */
+  async loadModel(uid: string): Promise<void> {
+    if (this.modelUserId === uid) return this.modelLoading ?? undefined;
+
+    this.resetPreferences();
+    this.modelUserId = uid;
+    const assigned = SCORERS[assignArm(uid, SCORER_EXPERIMENT)];
+    // Without a usable model the matrix factorization scorer would rank everything with the heuristic
+    this.scorer = assigned.usesMatrixFactorization && !this.mfModel ? heuristicScorer : assigned;
+    const loading = (async () => {
+      const saved = await loadTasteModel(uid);
+      if (this.modelUserId !== uid) return;
+      if (saved?.version === TASTE_MODEL_VERSION) {
+        this.applyModelState(saved);
+      } else {
+        if (saved) this.applyModelHistory(saved);
+        // Start from an empty model rather than failing the login
+        await this.rebuildModel(uid)
+          .catch(error => console.warn('Could not load interaction history to rebuild model:', error));
+      }
+    })();
+    this.modelLoading = loading;
+    try {
+      await loading;
+    } finally {
+      if (this.modelLoading === loading) this.modelLoading = null;
     }
-    this.updateTypePreferences(preferences);
-    // Seed genre weights from explicitly selected genres
-    this.seedExplicitGenrePreferences(preferences.genres || []).catch((e) => {
-      console.warn('Failed to seed genre preferences:', e);
-    });
   }
 
-  private async seedExplicitGenrePreferences(genreNames: string[]) {
-    if (!genreNames || genreNames.length === 0) return;
+  /**
+   * The scorer ranking a user's deck, as an assignment in SCORER_EXPERIMENT
+   * 
+   * Interactions record this rather than the assigned arm, so like-rates
+   * are credited to the scorer that actually ranked the deck.
+   * 
+   * @param uid - User whose deck is ranked
+   * @returns ExperimentAssignment | undefined - Undefined if the user's model isn't loaded
+   */
+  getScorerAssignment(uid: string): ExperimentAssignment | undefined {
+    if (this.modelUserId !== uid) return undefined;
+    return { experimentId: SCORER_EXPERIMENT.id, arm: this.scorer.id };
+  }
+
+  /**
+   * Rebuild a user's model from their full interaction history
+   * 
+   * Only needed when the saved model is missing or has to be recomputed;
+   * everyday learning goes through `learnFromInteraction`. Interactions in
+   * ranges forgotten with `resetRecentMood` are skipped; taste quiz answers
+   * are always kept.
+   * 
+   * @param uid - User whose model to rebuild
+   * @throws The Firebase error if the interaction history can't be loaded; the model is left as it was
+   */
+  async rebuildModel(uid: string): Promise<void> {
+    const interactions = await getUserInteractions(uid);
+    if (this.modelUserId !== uid) return;
+
+    this.profile.clear();
+    // Replay every action taken on each title, as learnFromInteraction saw them, not just the latest
+    const kept = interactions.flatMap(expandActions).filter(
+      interaction => !this.moodResets.some(range => interaction.timestamp >= range.from && interaction.timestamp <= range.to)
+    );
+    // Learn in time order so the decay between quiz answers and swipes is right
+    const events = [
+      ...kept.map(interaction => ({ timestamp: interaction.timestamp, apply: () => this.applyInteraction(interaction) })),
+      ...this.quizSeeds.map(seed => ({ timestamp: seed.timestamp, apply: () => this.applySeed(seed) })),
+    ];
+    for (const event of events.sort((a, b) => a.timestamp - b.timestamp)) {
+      event.apply();
+    }
+    console.log(`Rebuilt taste model from ${kept.length} interactions`);
+    await saveTasteModel(uid, this.getModelState());
+  }
+
+  /**
+   * Forget the interactions from the last few days and relearn without them
+   * 
+   * For when a binge or a shared device skewed recommendations. The
+   * interactions themselves are kept; they are just left out of the model,
+   * including on later rebuilds.
+   * 
+   * @param uid - User whose recent mood to reset
+   * @param days - How many days back to forget (default: 14)
+   * @throws The Firebase error if the model couldn't be relearned; nothing is forgotten then
+   */
+  async resetRecentMood(uid: string, days: number = RECENT_MOOD_DAYS): Promise<void> {
+    await this.loadModel(uid);
+    if (this.modelUserId !== uid) return;
+
+    const now = Date.now();
+    const range = { from: now - days * DAY_MS, to: now };
+    this.moodResets.push(range);
     try {
-      const ids = await movieApi.mapGenreNamesToIds(genreNames);
-      // Give a baseline positive weight for selected genres
-      for (const id of ids) {
-        this.updateGenreWeights([id], 2);
-      }
-    } catch (e) {
-      // Non-fatal; just log
-      console.warn('Error mapping genre names to ids:', e);
+      await this.rebuildModel(uid);
+    } catch (error) {
+      this.moodResets = this.moodResets.filter(reset => reset !== range);
+      throw error;
     }
   }
 
-  // Learn from liked content to improve recommendations
-  private async learnFromLikedContent(likedIds: number[]) {
-    if (!this.learningEnabled || likedIds.length === 0) return;
-    
-    // First, validate all IDs to filter out invalid ones
-    console.log(`Validating ${likedIds.length} liked content IDs...`);
-    const validIds = await movieApi.filterValidIds(likedIds);
-    
-    // Add invalid IDs to blacklist
-    const invalidIds = likedIds.filter(id => !validIds.includes(id));
-    invalidIds.forEach(id => {
-      this.invalidIds.add(id);
-      console.warn(`Liked content ID ${id} is invalid, adding to blacklist`);
+  /**
+   * Learn from a single new interaction and save the updated model
+   * 
+   * Uses the genres captured in the interaction's metadata, so no TMDB
+   * requests are made.
+   * 
+   * @param uid - User the interaction belongs to
+   * @param interaction - The interaction that was just recorded
+   */
+  async learnFromInteraction(uid: string, interaction: MovieInteraction): Promise<void> {
+    await this.loadModel(uid);
+    if (this.modelUserId !== uid) return;
+
+    this.applyInteraction(interaction);
+    this.recordExplorationOutcome(interaction);
+    await saveTasteModel(uid, this.getModelState());
+  }
+
+  /**
+   * Learn from the onboarding taste quiz and save the updated model
+   * 
+   * Gives a new user's first deck something to go on before they have
+   * swiped anything. Titles answered "haven't seen" are ignored.
+   * 
+   * @param uid - User who took the quiz
+   * @param answers - Rated titles with the answer given for each
+   */
+  async seedFromTasteQuiz(uid: string, answers: { item: Movie | TVShow; answer: TasteQuizAnswer }[]): Promise<void> {
+    await this.loadModel(uid);
+    if (this.modelUserId !== uid) return;
+
+    const timestamp = Date.now();
+    const seeds: TasteSeed[] = answers
+      .filter(({ answer }) => TASTE_QUIZ_WEIGHTS[answer] !== 0)
+      .map(({ item, answer }) => ({ ...getTitleFeatures(item), weight: TASTE_QUIZ_WEIGHTS[answer], timestamp }));
+    for (const seed of seeds) this.applySeed(seed);
+    this.quizSeeds.push(...seeds);
+    await saveTasteModel(uid, this.getModelState());
+  }
+
+  /**
+   * Use a trained matrix factorization model for scoring
+   * 
+   * The bundled model (assets/models/mf-model.json) is loaded on startup.
+   * Models with another version or without titles are ignored, leaving
+   * every title to the heuristic.
+   * 
+   * @param model - Parsed model file from scripts/train-matrix-factorization.ts
+   * @returns boolean - Whether the model was loaded
+   */
+  loadMatrixFactorizationModel(model: MatrixFactorizationModel): boolean {
+    this.userFactors = null;
+    this.userFactorsFeedback = '';
+    if (!isUsableModel(model)) {
+      this.mfModel = null;
+      return false;
+    }
+    this.mfModel = model;
+    return true;
+  }
+
+  // Fit the user's factors in the matrix factorization model to their current likes and dislikes
+  private updateUserFactors(preferences: UserPreferences) {
+    if (!this.mfModel || !this.scorer.usesMatrixFactorization) return;
+
+    const feedback = new Map<InteractionKey, number>();
+    for (const key of preferences.dislikedMovies || []) feedback.set(key, 0);
+    for (const key of [...(preferences.likedMovies || []), ...(preferences.watchlist || [])]) feedback.set(key, 1);
+
+    const signature = Array.from(feedback.entries()).map(([key, target]) => `${key}:${target}`).sort().join(',');
+    if (signature === this.userFactorsFeedback) return;
+    this.userFactors = foldInUser(this.mfModel, feedback);
+    this.userFactorsFeedback = signature;
+  }
+
+  // Count how an exploration pick was received, which tunes how much to explore
+  private recordExplorationOutcome(interaction: MovieInteraction) {
+    if (!interaction.movieMetadata) return;
+    const key = generateInteractionKey(interaction.movieId, interaction.movieMetadata.isMovie);
+    if (!this.exploredKeys.has(key)) return;
+
+    if (interaction.action === 'liked' || interaction.action === 'watchlisted') {
+      this.exploration.liked++;
+    } else if (interaction.action === 'disliked') {
+      this.exploration.disliked++;
+    } else {
+      return;
+    }
+    this.exploredKeys.delete(key);
+  }
+
+  /**
+   * Exploration rate adjusted by how exploration picks have been received
+   * 
+   * Scales the user's chosen rate between half and one and a half times,
+   * using the like rate of past exploration picks (with one imaginary like
+   * and dislike so a few swipes don't swing it to an extreme).
+   * 
+   * @param baseRate - The user's chosen exploration rate
+   * @returns number - Rate to use for the next deck
+   */
+  getEffectiveExplorationRate(baseRate: number): number {
+    const { liked, disliked } = this.exploration;
+    const likeRate = (liked + 1) / (liked + disliked + 2);
+    return Math.max(0, Math.min(1, baseRate * (0.5 + likeRate)));
+  }
+
+  // Apply one interaction to the in-memory weights
+  private applyInteraction(interaction: MovieInteraction) {
+    const metadata = interaction.movieMetadata;
+    if (!metadata) return;
+    this.profile.learn(interaction.action, metadata, interaction.timestamp);
+  }
+
+  // Apply one taste quiz answer to the in-memory weights
+  private applySeed(seed: TasteSeed) {
+    this.profile.learnWeight(seed.weight, seed, seed.timestamp);
+  }
+
+  // Snapshot of the learned model for saving
+  private getModelState(): TasteModelState {
+    return {
+      version: TASTE_MODEL_VERSION,
+      ...this.profile.toState(),
+      moodResets: [...this.moodResets],
+      quizSeeds: [...this.quizSeeds],
+      exploration: { ...this.exploration },
+      updatedAt: Date.now(),
+    };
+  }
+
+  // Replace the learned model with a saved one
+  private applyModelState(state: TasteModelState) {
+    this.profile.loadState(state);
+    this.applyModelHistory(state);
+  }
+
+  // Take over the parts of a saved model that interaction history can't restore
+  private applyModelHistory(state: TasteModelState) {
+    this.moodResets = state.moodResets ?? [];
+    this.quizSeeds = state.quizSeeds ?? [];
+    this.exploration = { liked: state.exploration?.liked ?? 0, disliked: state.exploration?.disliked ?? 0 };
+  }
+
+  // Score content based on user preferences
+  scoreContent(item: Movie | TVShow): number {
+    return totalScore(this.getScoreFactors(item));
+  }
+
+  // Break scoreContent down into its terms
+  getScoreFactors(item: Movie | TVShow): ScoreFactor[] {
+    const key = getContentKey(item);
+    return this.scorer.getScoreFactors(item, {
+      profile: this.profile,
+      collaborative: this.collaborativeScores.get(key),
+      predictedLike: this.mfModel && this.userFactors ? predictLike(this.mfModel, this.userFactors, key) : undefined,
     });
+  }
+
+  /**
+   * Explain a title's score and pick the headline reason for it
+   * 
+   * @param item - Title to explain
+   * @param sources - Candidate sources that produced the title
+   * @param seedTitles - Titles of liked items, for 'similar' sources
+   * @param genreNames - Catalog genre names in the active language
+   * @param languageNames - Language names by ISO 639-1 code
+   * @returns RecommendationExplanation - Reason, score and contributing factors
+   */
+  explainContent(
+    item: Movie | TVShow,
+    sources: CandidateAttribution[],
+    seedTitles: Map<InteractionKey, string> = new Map(),
+    genreNames: Map<number, string> = new Map(),
+    languageNames: Map<string, string> = new Map()
+  ): RecommendationExplanation {
+    const factors = this.getScoreFactors(item).sort((a, b) => b.contribution - a.contribution);
+    const score = Math.max(0, Math.min(10, factors.reduce((sum, factor) => sum + factor.contribution, 0)));
     
-    // Learn from valid content
-    for (const id of validIds) {
-      if (!this.learningEnabled) break;
-      
-      try {
-        // Validate the content type first
-        const validation = await movieApi.validateContentId(id);
-        if (!validation.exists) {
-          this.invalidIds.add(id);
-          continue;
-        }
-        
-        if (validation.type === 'movie') {
-          const movie = await movieApi.getMovieDetails(id);
-          this.updateGenreWeights(movie.genre_ids, 1);
-          this.typePreference.movies += 1;
-        } else if (validation.type === 'tv') {
-          const tvShow = await movieApi.getTVShowDetails(id);
-          this.updateGenreWeights(tvShow.genre_ids, 1);
-          this.typePreference.tvShows += 1;
-        }
-      } catch (error) {
-        console.warn(`Error learning from liked content ${id}:`, error);
-        this.invalidIds.add(id);
-        this.errorCount++;
-        if (this.errorCount >= this.maxErrors) {
-          console.warn('Too many API errors, disabling learning to prevent spam');
-          this.learningEnabled = false;
-          break;
-        }
+    let reason: RecommendationReason | null = null;
+    for (const source of REASON_PRIORITY) {
+      const attribution = sources.find(a => a.source === source);
+      if (!attribution) continue;
+      if (source === 'similar' || source === 'collaborative') {
+        const seedTitle = attribution.seedKey && seedTitles.get(attribution.seedKey);
+        if (attribution.seedKey && seedTitle) reason = { kind: source, seedKey: attribution.seedKey, seedTitle };
+      } else if (source === 'genre') {
+        const genreName = attribution.genreId !== undefined && genreNames.get(attribution.genreId);
+        if (attribution.genreId !== undefined && genreName) reason = { kind: 'genre', genreId: attribution.genreId, genreName };
+      } else {
+        // Titles from the general charts still count as a top pick if they match the user's favorite genre,
+        // and otherwise may match a language, decade or runtime the user clearly prefers
+        const topGenre = this.getTopGenres(1)[0];
+        const genreName = topGenre !== undefined && genreNames.get(topGenre);
+        reason = topGenre !== undefined && genreName && toCatalogGenreIds(item.genre_ids).includes(topGenre)
+          ? { kind: 'genre', genreId: topGenre, genreName }
+          : this.getAffinityReason(item, languageNames) ?? { kind: source };
       }
+      if (reason) break;
     }
+    
+    return { reason: reason ?? { kind: 'popular' }, factors, score };
   }
 
-  // Learn from disliked content to avoid similar content
-  private async learnFromDislikedContent(dislikedIds: number[]) {
-    if (!this.learningEnabled || dislikedIds.length === 0) return;
-    
-    // First, validate all IDs to filter out invalid ones
-    console.log(`Validating ${dislikedIds.length} disliked content IDs...`);
-    const validIds = await movieApi.filterValidIds(dislikedIds);
-    
-    // Add invalid IDs to blacklist
-    const invalidIds = dislikedIds.filter(id => !validIds.includes(id));
-    invalidIds.forEach(id => {
-      this.invalidIds.add(id);
-      console.warn(`Disliked content ID ${id} is invalid, adding to blacklist`);
-    });
-    
-    // Learn from valid content
-    for (const id of validIds) {
-      if (!this.learningEnabled) break;
-      
+  // The strongest affinity the title matches, if the user's preference for it is clear enough
+  private getAffinityReason(item: Movie | TVShow, languageNames: Map<string, string>): RecommendationReason | null {
+    const features = getTitleFeatures(item);
+    const values = getAffinityValues(features);
+    for (const dimension of AFFINITY_REASON_PRIORITY) {
+      const value = values[dimension];
+      if (!value) continue;
+      if (this.profile.getAffinityTotal(dimension) < AFFINITY_REASON_MIN_WEIGHT) continue;
+      if (this.profile.getAffinity(dimension, value) < AFFINITY_REASON_SHARE) continue;
+
+      if (dimension === 'language') {
+        // Most titles are in English, so liking English titles says little
+        const languageName = languageNames.get(value);
+        if (value !== 'en' && languageName) return { kind: 'language', language: value, languageName };
+      } else if (dimension === 'decade') {
+        return { kind: 'decade', decade: Number(value) };
+      } else if (value !== 'standard') {
+        return { kind: 'runtime', band: value as Exclude<RuntimeBand, 'standard'>, isMovie: features.isMovie };
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Load what explainContent needs to name liked titles, genres and languages
+   * 
+   * @param seedKeys - Liked titles that produced 'similar' or 'collaborative' candidates
+   * @returns Promise - Seed titles, genre names and language names; lookups that fail are left out
+   */
+  async loadExplanationContext(seedKeys: InteractionKey[]): Promise<{
+    seedTitles: Map<InteractionKey, string>;
+    genreNames: Map<number, string>;
+    languageNames: Map<string, string>;
+  }> {
+    const seedTitles = new Map<InteractionKey, string>();
+    await Promise.all(seedKeys.map(async key => {
+      const { id, isMovie } = parseInteractionKey(key);
       try {
-        // Validate the content type first
-        const validation = await movieApi.validateContentId(id);
-        if (!validation.exists) {
-          this.invalidIds.add(id);
-          continue;
-        }
-        
-        if (validation.type === 'movie') {
-          const movie = await movieApi.getMovieDetails(id);
-          this.updateGenreWeights(movie.genre_ids, -0.5);
-          this.typePreference.movies -= 0.5;
-        } else if (validation.type === 'tv') {
-          const tvShow = await movieApi.getTVShowDetails(id);
-          this.updateGenreWeights(tvShow.genre_ids, -0.5);
-          this.typePreference.tvShows -= 0.5;
-        }
+        const details = isMovie ? await movieApi.getMovieDetails(id) : await movieApi.getTVShowDetails(id);
+        seedTitles.set(key, 'title' in details ? details.title : details.name);
       } catch (error) {
-        console.warn(`Error learning from disliked content ${id}:`, error);
-        this.invalidIds.add(id);
-        this.errorCount++;
-        if (this.errorCount >= this.maxErrors) {
-          console.warn('Too many API errors, disabling learning to prevent spam');
-          this.learningEnabled = false;
-          break;
-        }
+        console.warn(`Could not load title for ${key}:`, error);
       }
+    }));
+    
+    const genreNames = new Map<number, string>();
+    try {
+      for (const genre of await loadGenreCatalog()) genreNames.set(genre.id, genre.name);
+    } catch (error) {
+      console.warn('Could not load genre names for explanations:', error);
     }
-  }
 
-  // Update genre weights based on user feedback
-  private updateGenreWeights(genreIds: number[], weight: number) {
-    // In a real app, you would map genre IDs to genre names
-    // For now, we'll use a simple approach
-    for (const genreId of genreIds) {
-      const genreKey = genreId.toString();
-      const currentWeight = this.genreWeights.get(genreKey) || 0;
-      this.genreWeights.set(genreKey, currentWeight + weight);
+    const languageNames = new Map<string, string>();
+    try {
+      for (const language of await movieApi.getLanguages()) languageNames.set(language.iso_639_1, language.english_name);
+    } catch (error) {
+      console.warn('Could not load language names for explanations:', error);
     }
+    return { seedTitles, genreNames, languageNames };
   }
 
-  // Update type preferences (movies vs TV shows)
-  private updateTypePreferences(preferences: UserPreferences) {
-    const likedMovies = preferences.likedMovies || [];
-    const dislikedMovies = preferences.dislikedMovies || [];
-    const watchlist = preferences.watchlist || [];
+  // Catalog genre IDs with the strongest positive weight, explicit picks included
+  getTopGenres(limit: number = 3): number[] {
+    return this.profile.getTopGenres(limit);
+  }
+
+  /**
+   * Get scored recommendation candidates with the sources that produced them
+   * 
+   * Pulls candidates from every source in `candidateGenerator.ts`, page by
+   * page, until there are enough unseen titles or the page limit is reached.
+   * Responses are cached, so earlier pages are cheap to revisit.
+   * 
+   * @param preferences - User's current preferences
+   * @param limit - Number of recommendations to return (default: 20)
+   * @param excludeKeys - Titles already swiped; titles in `preferences.seen` are left out too
+   * @returns Promise<ScoredCandidate[]> - Best scoring candidates first
+   */
+  async getRecommendationCandidates(
+    preferences: UserPreferences,
+    limit: number = 20,
+    excludeKeys: InteractionKey[] = []
+  ): Promise<ScoredCandidate[]> {
+    this.updatePreferences(preferences);
+    // Score with weights as they stand today, not as of the last interaction
+    this.profile.decayTo(Date.now());
+    this.updateUserFactors(preferences);
     
-    const totalLiked = likedMovies.length + watchlist.length;
-    const totalDisliked = dislikedMovies.length;
+    const excluded = new Set([...excludeKeys, ...(preferences.seen || [])]);
+    const candidates = new Map<InteractionKey, Candidate>();
+    const topGenreIds = this.getTopGenres();
     
-    if (totalLiked > 0) {
-      this.typePreference.movies = likedMovies.length / totalLiked;
-      this.typePreference.tvShows = watchlist.length / totalLiked;
+    // Fetch a few pages beyond what the limit needs, since many candidates may already be swiped
+    const maxPages = Math.ceil(limit / 40) + 2;
+    for (let page = 1; page <= maxPages && candidates.size < limit * 2; page++) {
+      const pageCandidates = await generateCandidates({
+        likedKeys: preferences.likedMovies || [],
+        topGenreIds,
+        page,
+      });
+      for (const candidate of pageCandidates) {
+        if (excluded.has(candidate.key)) continue;
+        const existing = candidates.get(candidate.key);
+        if (existing) {
+          existing.sources.push(...candidate.sources);
+        } else {
+          candidates.set(candidate.key, candidate);
+        }
+      }
     }
-  }
-
-  // Score content based on user preferences
-  scoreContent(item: Movie | TVShow): number {
-    let score = 0;
     
-    // Base score from rating
-    score += item.vote_average * 0.3;
+    await this.addCollaborativeCandidates(preferences.likedMovies || [], candidates, excluded);
     
-    // Genre preference score
-    const genreScore = this.calculateGenreScore(item.genre_ids);
-    score += genreScore * 0.4;
+    // Shuffle first so equal scores don't always come out in source order
+    const all = this.shuffleArray(Array.from(candidates.values()))
+      .map(candidate => ({ candidate, item: candidate.item, score: this.scoreContent(candidate.item) }));
     
-    // Type preference score
-    const isMovie = 'title' in item;
-    const typeScore = isMovie ? this.typePreference.movies : this.typePreference.tvShows;
-    score += typeScore * 0.2;
+    // Set aside well-rated titles in genres the user has shown no interest in, for exploration
+    const explorationRate = this.getEffectiveExplorationRate(preferences.explorationRate ?? DEFAULT_EXPLORATION_RATE);
+    const explorationCount = this.getTopGenres().length > 0 ? Math.round(limit * explorationRate) : 0;
+    const explorationPool = all.filter(
+      entry => entry.item.vote_average >= MIN_EXPLORATION_RATING && this.profile.calculateGenreScore(entry.item.genre_ids) <= 0
+    );
+    const explored = new Set(explorationPool.slice(0, explorationCount));
     
-    // Popularity score (normalized)
-    score += Math.min(item.popularity / 100, 1) * 0.1;
+    const ranked = rerankForDiversity(
+      all.filter(entry => !explored.has(entry)),
+      limit - explored.size,
+      preferences.diversity ?? DEFAULT_DIVERSITY
+    );
+    // Spread exploration picks evenly through the deck
+    const top = [...ranked];
+    const step = Math.floor(limit / (explored.size + 1));
+    Array.from(explored).forEach((entry, i) => top.splice(Math.min(top.length, step * (i + 1)), 0, entry));
     
-    return Math.max(0, Math.min(10, score));
+    const seedKeys = new Set<InteractionKey>();
+    for (const { candidate } of top) {
+      for (const source of candidate.sources) if (source.seedKey) seedKeys.add(source.seedKey);
+    }
+    const { seedTitles, genreNames, languageNames } = await this.loadExplanationContext(Array.from(seedKeys));
+    const scored = top.map(entry => {
+      const explanation = this.explainContent(entry.item, entry.candidate.sources, seedTitles, genreNames, languageNames);
+      if (explored.has(entry)) {
+        this.exploredKeys.add(entry.candidate.key);
+        explanation.reason = { kind: 'explore' };
+      }
+      return { ...entry.candidate, score: entry.score, explanation };
+    });
+    
+    console.log(`Generated ${scored.length} recommendations from ${candidates.size} candidates (excluded ${excludeKeys.length} swiped cards)`);
+    return scored;
   }
 
-  // Calculate genre score based on learned preferences
-  private calculateGenreScore(genreIds: number[]): number {
-    if (genreIds.length === 0) return 0;
+  /**
+   * Refresh collaborative scores and merge collaborative picks into the candidates
+   * 
+   * Titles that other sources already produced get a 'collaborative'
+   * attribution; the strongest picks nobody else produced are fetched from
+   * TMDB. Skipped for scorers that don't use collaborative scores. Failures
+   * leave the content-based candidates untouched.
+   */
+  private async addCollaborativeCandidates(
+    likedKeys: InteractionKey[],
+    candidates: Map<InteractionKey, Candidate>,
+    excluded: Set<InteractionKey>
+  ) {
+    if (!this.modelUserId || !this.scorer.usesCollaborative || likedKeys.length === 0) return;
     
-    let totalScore = 0;
-    for (const genreId of genreIds) {
-      const genreKey = genreId.toString();
-      const weight = this.genreWeights.get(genreKey) || 0;
-      totalScore += weight;
+    try {
+      this.collaborativeScores = await collaborativeFilter.getScores(this.modelUserId, likedKeys);
+    } catch (error) {
+      console.warn('Could not compute collaborative scores:', error);
+      return;
+    }
+    
+    const missing: InteractionKey[] = [];
+    const byScore = Array.from(this.collaborativeScores.entries()).sort((a, b) => b[1].score - a[1].score);
+    for (const [key, { seedKey }] of byScore) {
+      const existing = candidates.get(key);
+      if (existing) {
+        existing.sources.push({ source: 'collaborative', seedKey });
+      } else if (!excluded.has(key) && missing.length < MAX_COLLABORATIVE_CANDIDATES) {
+        missing.push(key);
+      }
     }
     
-    return totalScore / genreIds.length;
+    await Promise.all(missing.map(async key => {
+      const { id, isMovie } = parseInteractionKey(key);
+      try {
+        const item = isMovie ? await movieApi.getMovieDetails(id) : await movieApi.getTVShowDetails(id);
+        const seedKey = this.collaborativeScores.get(key)!.seedKey;
+        candidates.set(key, { key, item, sources: [{ source: 'collaborative', seedKey }] });
+      } catch (error) {
+        console.warn(`Could not load collaborative pick ${key}:`, error);
+      }
+    }));
   }
 
   // Get personalized recommendations
   async getPersonalizedRecommendations(
     preferences: UserPreferences,
     limit: number = 20,
-    excludeIds: number[] = []
+    excludeKeys: InteractionKey[] = []
   ): Promise<(Movie | TVShow)[]> {
-    this.updatePreferences(preferences);
-    
     try {
-      // Get content from multiple pages to increase diversity
-      const pagesToFetch = Math.ceil(limit / 20) + 2; // Fetch extra pages for variety
-      const allContentPromises = [];
-      
-      for (let page = 1; page <= pagesToFetch; page++) {
-        allContentPromises.push(movieApi.getMixedContent(page));
-      }
-      
-      const allContentArrays = await Promise.all(allContentPromises);
-      const allContent = allContentArrays.flat();
-      
-      // Filter out excluded IDs (swiped cards)
-      const filteredContent = allContent.filter(item => !excludeIds.includes(item.id));
-      
-      // Shuffle the content first to add randomness
-      const shuffledContent = this.shuffleArray(filteredContent);
-      
-      // Score and sort content
-      const scoredContent = shuffledContent
-        .map(item => ({
-          item,
-          score: this.scoreContent(item)
-        }))
-        .sort((a, b) => b.score - a.score)
-        .slice(0, limit)
-        .map(scored => scored.item);
-      
-      console.log(`Generated ${scoredContent.length} recommendations (filtered from ${allContent.length} total, excluded ${excludeIds.length} swiped cards)`);
-      
-      // If we don't have enough recommendations, try to get more content from additional pages
-      if (scoredContent.length < limit && excludeIds.length > 0) {
-        console.log(`Only got ${scoredContent.length} recommendations, trying additional pages...`);
-        const additionalPages = Math.ceil(excludeIds.length / 20) + 1;
-        const additionalContentPromises = [];
-        
-        for (let page = pagesToFetch + 1; page <= pagesToFetch + additionalPages; page++) {
-          additionalContentPromises.push(movieApi.getMixedContent(page));
-        }
-        
-        try {
-          const additionalContentArrays = await Promise.all(additionalContentPromises);
-          const additionalContent = additionalContentArrays.flat();
-          const additionalFiltered = additionalContent.filter(item => !excludeIds.includes(item.id));
-          const additionalShuffled = this.shuffleArray(additionalFiltered);
-          
-          const additionalScored = additionalShuffled
-            .map(item => ({
-              item,
-              score: this.scoreContent(item)
-            }))
-            .sort((a, b) => b.score - a.score)
-            .slice(0, limit - scoredContent.length)
-            .map(scored => scored.item);
-          
-          scoredContent.push(...additionalScored);
-          console.log(`Added ${additionalScored.length} more recommendations from additional pages`);
-        } catch (error) {
-          console.warn('Failed to load additional content:', error);
-        }
-      }
-      
-      return scoredContent;
+      const scored = await this.getRecommendationCandidates(preferences, limit, excludeKeys);
+      return scored.map(candidate => candidate.item);
     } catch (error) {
       console.error('Error getting personalized recommendations:', error);
       return [];
@@ -335,19 +753,12 @@ export class RecommendationService {
     limit: number = 10
   ): Promise<(Movie | TVShow)[]> {
     try {
-      // First validate that the item exists
-      const validation = await movieApi.validateContentId(itemId);
-      if (!validation.exists) {
-        console.warn(`Cannot get similar content for invalid ID ${itemId}`);
-        return [];
-      }
-      
       let recommendations: (Movie | TVShow)[] = [];
       
-      if (validation.type === 'movie') {
+      if (isMovie) {
         const response = await movieApi.getMovieRecommendations(itemId);
         recommendations = response.results;
-      } else if (validation.type === 'tv') {
+      } else {
         const response = await movieApi.getTVRecommendations(itemId);
         recommendations = response.results;
       }
@@ -359,29 +770,35 @@ export class RecommendationService {
     }
   }
 
-  // Reset all learned preferences
+  // Reset all learned preferences in memory and forget which user they belonged to
   resetPreferences() {
-    this.genreWeights.clear();
-    this.typePreference = { movies: 0, tvShows: 0 };
-    this.learningEnabled = true;
-    this.errorCount = 0;
-    this.invalidIds.clear(); // Clear the blacklist
+    this.profile = new TasteProfile();
+    this.moodResets = [];
+    this.quizSeeds = [];
+    this.exploration = { liked: 0, disliked: 0 };
+    this.exploredKeys.clear();
+    this.collaborativeScores.clear();
+    collaborativeFilter.clearCache();
+    this.scorer = heuristicScorer;
+    this.userFactors = null;
+    this.userFactorsFeedback = '';
+    this.modelUserId = null;
+    this.modelLoading = null;
   }
 
   // Get current preference summary
   getPreferenceSummary() {
-    return {
-      genreWeights: Object.fromEntries(this.genreWeights),
-      typePreference: this.typePreference,
-      learningEnabled: this.learningEnabled,
-      errorCount: this.errorCount,
-    };
-  }
-
-  // Check if learning is enabled
-  isLearningEnabled(): boolean {
-    return this.learningEnabled;
+    return this.profile.getSummary();
   }
 }
 
 export const recommendationService = new RecommendationService();
+
+// ==================== PRIVATE FUNCTIONS ====================
+
+// One interaction per action taken on the title; records from before `actions` only have the latest
+function expandActions(interaction: MovieInteraction): MovieInteraction[] {
+  if (!interaction.actions) return [interaction];
+  return (Object.entries(interaction.actions) as [MovieInteraction['action'], number][])
+    .map(([action, timestamp]) => ({ ...interaction, action, timestamp }));
+}
@@ -0,0 +1,325 @@
+/**
+ * Response Cache Service
+ *
+ * Persistent, TTL-aware cache for API responses backed by AsyncStorage.
+ * Entries survive app restarts, expire according to per-endpoint policies,
+ * and can be served stale while a fresh copy is fetched in the background.
+ *
+ * Features:
+ * - Per-endpoint TTL and stale windows
+ * - Stale-while-revalidate lookups
+ * - Entry count and byte size limits with LRU eviction
+ * - Hit/miss/eviction statistics
+ *
+ * @author Flicksy Team
+ * @version 1.0.0
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
+
+/**
+ * Cache policy for a group of endpoints
+ */
+export interface CachePolicy {
+  ttlMs: number; // How long an entry is considered fresh
+  staleMs: number; // How long after expiry an entry may still be served while revalidating
+}
+
+/**
+ * Rule mapping an endpoint pattern to a cache policy
+ */
+export interface CacheRule extends CachePolicy {
+  pattern: RegExp; // Matched against the endpoint path (e.g. '/movie/550')
+}
+
+/**
+ * A single cached response
+ */
+interface CacheEntry<T = unknown> {
+  value: T; // Parsed response body
+  storedAt: number; // When the entry was written
+  expiresAt: number; // When the entry stops being fresh
+  staleUntil: number; // When the entry can no longer be served at all
+}
+
+/**
+ * Index record kept per entry for LRU eviction
+ */
+interface CacheIndexRecord {
+  lastAccessed: number; // Last read or write time
+  size: number; // Approximate serialized size in bytes
+}
+
+/**
+ * Result of a cache lookup
+ */
+export interface CacheLookup<T> {
+  value: T; // The cached value
+  isStale: boolean; // True if the entry is past its TTL but within its stale window
+}
+
+/**
+ * Cache statistics for diagnostics
+ */
+export interface CacheStats {
+  hits: number; // Fresh entries served
+  staleHits: number; // Stale entries served while revalidating
+  misses: number; // Lookups that found nothing usable
+  writes: number; // Entries stored
+  evictions: number; // Entries removed to satisfy size limits
+  entries: number; // Entries currently stored
+  totalBytes: number; // Approximate size of all stored entries
+}
+
+/**
+ * Size limits for the cache
+ */
+export interface CacheLimits {
+  maxEntries: number; // Maximum number of stored entries
+  maxBytes: number; // Maximum approximate size of all stored entries
+}
+
+// Default policies, checked in order - the first matching rule wins
+const DEFAULT_RULES: CacheRule[] = [
+  { pattern: /^\/genre\//, ttlMs: 7 * DAY_MS, staleMs: 30 * DAY_MS },
+  { pattern: /^\/(movie|tv)\/\d+\/recommendations/, ttlMs: DAY_MS, staleMs: 7 * DAY_MS },
+  { pattern: /^\/(movie|tv)\/\d+\/watch\/providers/, ttlMs: DAY_MS, staleMs: 7 * DAY_MS },
+  { pattern: /^\/(movie|tv)\/\d+(\?|$)/, ttlMs: 7 * DAY_MS, staleMs: 30 * DAY_MS },
+  { pattern: /^\/person\/\d+(\?|$)/, ttlMs: 7 * DAY_MS, staleMs: 30 * DAY_MS },
+  { pattern: /^\/trending\//, ttlMs: HOUR_MS, staleMs: DAY_MS },
+  { pattern: /^\/(movie|tv)\/(popular|top_rated)/, ttlMs: 6 * HOUR_MS, staleMs: 2 * DAY_MS },
+  { pattern: /^\/discover\//, ttlMs: 6 * HOUR_MS, staleMs: 2 * DAY_MS },
+  { pattern: /^\/search\//, ttlMs: 10 * MINUTE_MS, staleMs: HOUR_MS },
+];
+
+const DEFAULT_POLICY: CachePolicy = { ttlMs: HOUR_MS, staleMs: DAY_MS };
+
+const DEFAULT_LIMITS: CacheLimits = {
+  maxEntries: 300,
+  maxBytes: 5 * 1024 * 1024,
+};
+
+const STORAGE_PREFIX = '@flicksy/response-cache:'; // Prefix for entry keys in AsyncStorage
+const INDEX_KEY = `${STORAGE_PREFIX}__index`; // AsyncStorage key holding the LRU index
+const INDEX_SAVE_DELAY_MS = 1000; // Debounce for persisting access times
+
+/**
+ * ResponseCache class
+ *
+ * Keeps recently used entries in memory and persists every entry to AsyncStorage.
+ * The index of keys, sizes and access times is loaded lazily on first use.
+ */
+export class ResponseCache {
+  private rules: CacheRule[];
+  private limits: CacheLimits;
+  private memory: Map<string, CacheEntry> = new Map(); // Entries read or written this session
+  private index: Map<string, CacheIndexRecord> = new Map(); // All persisted entries
+  private indexLoaded: Promise<void> | null = null; // Pending or completed index load
+  private indexSaveTimer: ReturnType<typeof setTimeout> | null = null;
+  private stats = { hits: 0, staleHits: 0, misses: 0, writes: 0, evictions: 0 };
+
+  constructor(rules: CacheRule[] = DEFAULT_RULES, limits: Partial<CacheLimits> = {}) {
+    this.rules = rules;
+    this.limits = { ...DEFAULT_LIMITS, ...limits };
+  }
+
+  /**
+   * Get the cache policy that applies to an endpoint
+   *
+   * @param endpoint - API endpoint path, with or without query string
+   * @returns CachePolicy - The first matching rule, or the default policy
+   */
+  getPolicy(endpoint: string): CachePolicy {
+    const rule = this.rules.find(r => r.pattern.test(endpoint));
+    return rule ? { ttlMs: rule.ttlMs, staleMs: rule.staleMs } : DEFAULT_POLICY;
+  }
+
+  /**
+   * Look up a cached value
+   *
+   * @param key - Cache key (usually the endpoint)
+   * @param allowExpired - Return entries past their stale window too (e.g. while offline)
+   * @returns Promise<CacheLookup<T> | null> - The cached value, or null on a miss
+   */
+  async get<T>(key: string, allowExpired: boolean = false): Promise<CacheLookup<T> | null> {
+    await this.loadIndex();
+
+    let entry = this.memory.get(key) as CacheEntry<T> | undefined;
+    if (!entry && this.index.has(key)) {
+      entry = await this.readEntry<T>(key);
+    }
+
+    const now = Date.now();
+    if (!entry || (!allowExpired && now > entry.staleUntil)) {
+      this.stats.misses++;
+      return null;
+    }
+
+    this.touch(key);
+    const isStale = now > entry.expiresAt;
+    if (isStale) {
+      this.stats.staleHits++;
+    } else {
+      this.stats.hits++;
+    }
+
+    return { value: entry.value, isStale };
+  }
+
+  /**
+   * Store a value using the policy for its key
+   *
+   * @param key - Cache key (usually the endpoint)
+   * @param value - JSON-serializable value to store
+   */
+  async set<T>(key: string, value: T): Promise<void> {
+    await this.loadIndex();
+
+    const now = Date.now();
+    const policy = this.getPolicy(key);
+    const entry: CacheEntry<T> = {
+      value,
+      storedAt: now,
+      expiresAt: now + policy.ttlMs,
+      staleUntil: now + policy.ttlMs + policy.staleMs,
+    };
+
+    const serialized = JSON.stringify(entry);
+    this.memory.set(key, entry);
+    this.index.set(key, { lastAccessed: now, size: serialized.length });
+    this.stats.writes++;
+
+    try {
+      await AsyncStorage.setItem(STORAGE_PREFIX + key, serialized);
+    } catch (error) {
+      console.warn(`Failed to persist cache entry ${key}:`, error);
+    }
+
+    await this.evictIfNeeded();
+    this.scheduleIndexSave();
+  }
+
+  /**
+   * Remove every cached entry from memory and storage
+   */
+  async clear(): Promise<void> {
+    await this.loadIndex();
+    const keys = Array.from(this.index.keys()).map(k => STORAGE_PREFIX + k);
+
+    this.memory.clear();
+    this.index.clear();
+    this.stats = { hits: 0, staleHits: 0, misses: 0, writes: 0, evictions: 0 };
+
+    try {
+      await AsyncStorage.multiRemove([...keys, INDEX_KEY]);
+    } catch (error) {
+      console.warn('Failed to clear response cache:', error);
+    }
+  }
+
+  /**
+   * Get cache statistics
+   *
+   * @returns CacheStats - Counters since the last clear plus current size
+   */
+  getStats(): CacheStats {
+    let totalBytes = 0;
+    for (const record of this.index.values()) totalBytes += record.size;
+
+    return {
+      ...this.stats,
+      entries: this.index.size,
+      totalBytes,
+    };
+  }
+
+  // ==================== PRIVATE METHODS ====================
+
+  // Load the persisted LRU index once per session
+  private loadIndex(): Promise<void> {
+    if (!this.indexLoaded) {
+      this.indexLoaded = (async () => {
+        try {
+          const raw = await AsyncStorage.getItem(INDEX_KEY);
+          if (raw) {
+            const parsed = JSON.parse(raw) as Record<string, CacheIndexRecord>;
+            this.index = new Map(Object.entries(parsed));
+          }
+        } catch (error) {
+          console.warn('Failed to load response cache index:', error);
+        }
+      })();
+    }
+    return this.indexLoaded;
+  }
+
+  // Read an entry from storage into memory
+  private async readEntry<T>(key: string): Promise<CacheEntry<T> | undefined> {
+    try {
+      const raw = await AsyncStorage.getItem(STORAGE_PREFIX + key);
+      if (!raw) {
+        this.index.delete(key);
+        return undefined;
+      }
+      const entry = JSON.parse(raw) as CacheEntry<T>;
+      this.memory.set(key, entry);
+      return entry;
+    } catch (error) {
+      console.warn(`Failed to read cache entry ${key}:`, error);
+      return undefined;
+    }
+  }
+
+  // Mark an entry as recently used
+  private touch(key: string) {
+    const record = this.index.get(key);
+    if (record) {
+      record.lastAccessed = Date.now();
+      this.scheduleIndexSave();
+    }
+  }
+
+  // Drop least recently used entries until the cache is within its limits
+  private async evictIfNeeded() {
+    let totalBytes = 0;
+    for (const record of this.index.values()) totalBytes += record.size;
+
+    if (this.index.size <= this.limits.maxEntries && totalBytes <= this.limits.maxBytes) return;
+
+    const byAge = Array.from(this.index.entries()).sort((a, b) => a[1].lastAccessed - b[1].lastAccessed);
+    const evicted: string[] = [];
+
+    for (const [key, record] of byAge) {
+      if (this.index.size <= this.limits.maxEntries && totalBytes <= this.limits.maxBytes) break;
+      this.index.delete(key);
+      this.memory.delete(key);
+      totalBytes -= record.size;
+      evicted.push(STORAGE_PREFIX + key);
+    }
+
+    this.stats.evictions += evicted.length;
+
+    try {
+      await AsyncStorage.multiRemove(evicted);
+    } catch (error) {
+      console.warn('Failed to remove evicted cache entries:', error);
+    }
+  }
+
+  // Persist the index after a short delay so bursts of reads cause a single write
+  private scheduleIndexSave() {
+    if (this.indexSaveTimer) return;
+    this.indexSaveTimer = setTimeout(async () => {
+      this.indexSaveTimer = null;
+      try {
+        await AsyncStorage.setItem(INDEX_KEY, JSON.stringify(Object.fromEntries(this.index)));
+      } catch (error) {
+        console.warn('Failed to persist response cache index:', error);
+      }
+    }, INDEX_SAVE_DELAY_MS);
+  }
+}
@@ -0,0 +1,206 @@
+/**
+ * Scorers
+ *
+ * Interchangeable ways of turning what we know about a user and a title into
+ * a 0-10 score. The linear scorers are weighted sums of the same features,
+ * so each one can explain its score term by term:
+ * - rating: TMDB vote average (0-10)
+ * - genre: learned and explicit genre weight of the title's genres
+ * - type: share of the user's positive weight for the title's media type (0-1)
+ * - popularity: TMDB popularity, capped at 100 and scaled to 0-1
+ * - language, decade, runtime: the user's affinity for the title's original
+ *   language, release decade and runtime band (0-1); runtime only counts
+ *   when the title's runtime is known
+ * - collaborative: similarity to the user's likes from collaborative filtering (0-1)
+ *
+ * Implementations:
+ * - heuristic: hand-tuned weights, content only
+ * - collaborative: the heuristic plus the collaborative filtering score
+ * - exported_model: weights trained offline, bundled as
+ *   assets/models/scorer-model.json; the bundled file is a copy of the
+ *   heuristic weights, so it stays out of the experiment until trained
+ *   weights replace it
+ * - matrix_factorization: the like probability predicted by the matrix
+ *   factorization model (see matrixFactorization.ts), or the heuristic for
+ *   titles the model doesn't know
+ *
+ * Kept free of app services so the evaluation harness can use it too.
+ *
+ * @author Flicksy Team
+ * @version 1.0.0
+ */
+
+import exportedModel from '../assets/models/scorer-model.json';
+import type { CollaborativeScore } from './collaborativeFilter';
+import type { Movie, TVShow } from './movieApi';
+import type { TasteProfile } from './tasteProfile';
+import { getAffinityValues, getTitleFeatures } from './titleFeatures';
+
+export type ScorerId = 'heuristic' | 'collaborative' | 'exported_model' | 'matrix_factorization';
+
+export type ScoreFeature = 'rating' | 'genre' | 'type' | 'popularity' | 'language' | 'decade' | 'runtime' | 'collaborative';
+
+/**
+ * One term of a score and how much it added
+ */
+export interface ScoreFactor {
+  label: string; // e.g. 'Genre match'
+  contribution: number; // Points added to the score
+  detail?: string; // Human-readable input, e.g. '7.8/10'
+}
+
+/**
+ * What a scorer knows about the user
+ */
+export interface ScoringContext {
+  profile: TasteProfile; // Learned genre, type, language, decade and runtime weights
+  collaborative?: CollaborativeScore; // Collaborative filtering score for the title, if any
+  predictedLike?: number; // Like probability from the matrix factorization model (0-1), if the title is in it
+}
+
+/**
+ * A way of scoring titles for a user
+ */
+export interface Scorer {
+  id: ScorerId;
+  usesCollaborative: boolean; // Whether collaborative scores affect the result (skip fetching them otherwise)
+  usesMatrixFactorization: boolean; // Whether predicted likes affect the result (skip predicting them otherwise)
+  getScoreFactors(item: Movie | TVShow, context: ScoringContext): ScoreFactor[]; // Terms of the score
+}
+
+/**
+ * Linear model exported from offline training
+ */
+export interface ExportedScorerModel {
+  version: number; // Format version, see EXPORTED_MODEL_VERSION
+  name: string; // Identifies the training run, e.g. "linear-2026-10-01"
+  bias: number; // Constant added to every score
+  weights: Partial<Record<ScoreFeature, number>>; // Missing features count as 0
+}
+
+export const EXPORTED_MODEL_VERSION = 1;
+
+// Hand-tuned weights; affinities only nudge titles that already score well
+const HEURISTIC_WEIGHTS: Record<ScoreFeature, number> = {
+  rating: 0.3,
+  genre: 0.4,
+  type: 0.2,
+  popularity: 0.1,
+  language: 0.5,
+  decade: 0.3,
+  runtime: 0.3,
+  collaborative: 0,
+};
+
+// Points a perfect collaborative match adds on top of the content-based score
+const COLLABORATIVE_WEIGHT = 2;
+
+/**
+ * Create a scorer that adds up weighted features
+ *
+ * @param id - Scorer ID
+ * @param weights - Weight per feature; missing features are left out
+ * @param bias - Constant added to every score (default: 0)
+ * @returns Scorer
+ */
+export function createLinearScorer(id: ScorerId, weights: Partial<Record<ScoreFeature, number>>, bias: number = 0): Scorer {
+  return {
+    id,
+    usesCollaborative: !!weights.collaborative,
+    usesMatrixFactorization: false,
+    getScoreFactors(item, { profile, collaborative }) {
+      const isMovie = 'title' in item;
+      const typeScore = profile.getTypeScore(isMovie);
+      const factors: ScoreFactor[] = [];
+      const add = (feature: ScoreFeature, value: number, label: string, detail?: string) => {
+        const weight = weights[feature];
+        if (weight) factors.push({ label, contribution: value * weight, detail });
+      };
+
+      add('rating', item.vote_average, 'Rating', `${item.vote_average.toFixed(1)}/10`);
+      add('genre', profile.calculateGenreScore(item.genre_ids), 'Genre match');
+      add('type', typeScore, isMovie ? 'You watch movies' : 'You watch TV shows', `${Math.round(typeScore * 100)}% of your likes`);
+      add('popularity', Math.min(item.popularity / 100, 1), 'Popularity');
+
+      const features = getTitleFeatures(item);
+      const values = getAffinityValues(features);
+      if (values.language) {
+        const share = profile.getAffinity('language', values.language);
+        add('language', share, 'Language match', `${Math.round(share * 100)}% of your likes`);
+      }
+      if (values.decade) {
+        const share = profile.getAffinity('decade', values.decade);
+        add('decade', share, 'Era match', `${values.decade}s, ${Math.round(share * 100)}% of your likes`);
+      }
+      if (values.runtime) {
+        const share = profile.getAffinity('runtime', values.runtime);
+        add('runtime', share, 'Runtime match', `${features.runtime} min, ${Math.round(share * 100)}% of your likes`);
+      }
+      if (collaborative) add('collaborative', collaborative.score, 'Liked by similar users');
+      if (bias) factors.push({ label: 'Baseline', contribution: bias });
+      return factors;
+    },
+  };
+}
+
+export const heuristicScorer = createLinearScorer('heuristic', HEURISTIC_WEIGHTS);
+
+export const collaborativeScorer = createLinearScorer('collaborative', {
+  ...HEURISTIC_WEIGHTS,
+  collaborative: COLLABORATIVE_WEIGHT,
+});
+
+/**
+ * Create a scorer from an exported model
+ *
+ * Falls back to the heuristic weights (keeping the exported_model ID, so
+ * the experiment arm stays identifiable) if the model is in another format.
+ *
+ * @param model - Parsed model file
+ * @returns Scorer
+ */
+export function createExportedModelScorer(model: ExportedScorerModel): Scorer {
+  if (model.version !== EXPORTED_MODEL_VERSION || typeof model.weights !== 'object') {
+    console.warn(`Unsupported scorer model ${model.name ?? ''} (version ${model.version}), using heuristic weights`);
+    return createLinearScorer('exported_model', HEURISTIC_WEIGHTS);
+  }
+  return createLinearScorer('exported_model', model.weights, model.bias ?? 0);
+}
+
+export const exportedModelScorer = createExportedModelScorer(exportedModel as ExportedScorerModel);
+
+/**
+ * Score with the matrix factorization model's predicted like probability
+ *
+ * Titles the model has no factors for (cold start) get the heuristic score.
+ */
+export const matrixFactorizationScorer: Scorer = {
+  id: 'matrix_factorization',
+  usesCollaborative: false,
+  usesMatrixFactorization: true,
+  getScoreFactors(item, context) {
+    if (context.predictedLike === undefined) {
+      return heuristicScorer.getScoreFactors(item, context);
+    }
+    return [{
+      label: 'Predicted match',
+      contribution: context.predictedLike * 10,
+      detail: `${Math.round(context.predictedLike * 100)}% chance you'll like it`,
+    }];
+  },
+};
+
+export const SCORERS: Record<ScorerId, Scorer> = {
+  heuristic: heuristicScorer,
+  collaborative: collaborativeScorer,
+  exported_model: exportedModelScorer,
+  matrix_factorization: matrixFactorizationScorer,
+};
+
+/**
+ * Add up a scorer's factors into a 0-10 score
+ */
+export function totalScore(factors: ScoreFactor[]): number {
+  const total = factors.reduce((sum, factor) => sum + factor.contribution, 0);
+  return Math.max(0, Math.min(10, total));
+}
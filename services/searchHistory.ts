@@ -0,0 +1,83 @@
+/**
+ * Search History Service
+ *
+ * Keeps each user's most recent search queries in AsyncStorage so the
+ * search screen can offer them again.
+ *
+ * @author Flicksy Team
+ * @version 1.0.0
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+const STORAGE_PREFIX = '@flicksy/search-history:'; // Followed by the user's uid
+const MAX_RECENT_SEARCHES = 10; // Upper bound on queries kept per user
+
+/**
+ * Load a user's recent searches
+ *
+ * @param uid - User the history belongs to
+ * @returns Promise<string[]> - Queries, most recent first
+ */
+export async function loadRecentSearches(uid: string): Promise<string[]> {
+  try {
+    const raw = await AsyncStorage.getItem(STORAGE_PREFIX + uid);
+    return raw ? (JSON.parse(raw) as string[]) : [];
+  } catch (error) {
+    console.warn('Failed to load search history:', error);
+    return [];
+  }
+}
+
+/**
+ * Record a search, moving it to the front if it was already in the history
+ *
+ * @param uid - User the history belongs to
+ * @param query - Query that was searched
+ * @returns Promise<string[]> - Updated history, most recent first
+ */
+export async function addRecentSearch(uid: string, query: string): Promise<string[]> {
+  const trimmed = query.trim();
+  const current = await loadRecentSearches(uid);
+  if (!trimmed) return current;
+
+  const updated = [trimmed, ...current.filter(q => q.toLowerCase() !== trimmed.toLowerCase())]
+    .slice(0, MAX_RECENT_SEARCHES);
+
+  try {
+    await AsyncStorage.setItem(STORAGE_PREFIX + uid, JSON.stringify(updated));
+  } catch (error) {
+    console.warn('Failed to save search history:', error);
+  }
+  return updated;
+}
+
+/**
+ * Remove a single query from a user's history
+ *
+ * @param uid - User the history belongs to
+ * @param query - Query to remove
+ * @returns Promise<string[]> - Updated history, most recent first
+ */
+export async function removeRecentSearch(uid: string, query: string): Promise<string[]> {
+  const updated = (await loadRecentSearches(uid)).filter(q => q !== query);
+  try {
+    await AsyncStorage.setItem(STORAGE_PREFIX + uid, JSON.stringify(updated));
+  } catch (error) {
+    console.warn('Failed to save search history:', error);
+  }
+  return updated;
+}
+
+/**
+ * Remove a user's whole search history
+ *
+ * @param uid - User the history belongs to
+ */
+export async function clearRecentSearches(uid: string): Promise<void> {
+  try {
+    await AsyncStorage.removeItem(STORAGE_PREFIX + uid);
+  } catch (error) {
+    console.warn('Failed to clear search history:', error);
+  }
+}
@@ -0,0 +1,142 @@
+/**
+ * Taste Model Store
+ *
+ * Persists the recommendation model learned from a user's interactions, so
+ * learning carries over between sessions and devices without replaying the
+ * user's whole history. The model is kept in AsyncStorage for fast, offline
+ * startup and mirrored to Firebase under `users/{uid}/tasteModel`.
+ *
+ * Saved models carry a schema version. The weights of a model saved with a
+ * different version are relearned from interaction history; what only the
+ * saved model knows (quiz answers, mood resets, exploration counts) is
+ * carried over.
+ *
+ * @author Flicksy Team
+ * @version 1.0.0
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { connectivityService } from './connectivityService';
+import { getUserTasteModel, setUserTasteModel } from './firebaseDb';
+import type { AffinityDimension, TitleFeatures } from './titleFeatures';
+
+const STORAGE_PREFIX = '@flicksy/taste-model:'; // Followed by the user's uid
+export const TASTE_MODEL_VERSION = 3; // Bump when TasteModelState changes shape or meaning
+
+/**
+ * A taste quiz answer, kept so rebuilds can learn from it again
+ */
+export interface TasteSeed extends TitleFeatures {
+  weight: number; // Weight of the answer (see TASTE_QUIZ_WEIGHTS)
+  timestamp: number; // When the quiz was answered (ms since epoch)
+}
+
+/**
+ * Serialized recommendation model
+ */
+export interface TasteModelState {
+  version: number; // Schema version the model was saved with
+  genreWeights: Record<string, number>; // Catalog genre ID to learned weight, decayed to decayedAt
+  typePreference: { movies: number; tvShows: number }; // Learned movie vs TV weight, decayed to decayedAt
+  affinityWeights?: Partial<Record<AffinityDimension, Record<string, number>>>; // Language code, decade or runtime band to learned weight, decayed to decayedAt
+  decayedAt: number; // Time the weights were last decayed to (ms since epoch)
+  halfLifeDays: number; // Half-life the weights were decayed with; 0 means no decay
+  moodResets?: { from: number; to: number }[]; // Interaction time ranges dropped with "reset recent mood"
+  quizSeeds?: TasteSeed[]; // Onboarding taste quiz answers, learned alongside interactions
+  interactionCount: number; // Interactions learned from so far
+  exploration?: { liked: number; disliked: number }; // How exploration picks were received
+  updatedAt: number; // When the model last changed (ms since epoch)
+}
+
+/**
+ * Save the model for a user on this device and, when online, to Firebase
+ *
+ * Remote writes are skipped while offline; the next save sends the whole
+ * model, so nothing needs to be queued.
+ *
+ * @param uid - User the model belongs to
+ * @param state - Model to save
+ */
+export async function saveTasteModel(uid: string, state: TasteModelState): Promise<void> {
+  try {
+    await AsyncStorage.setItem(STORAGE_PREFIX + uid, JSON.stringify(state));
+  } catch (error) {
+    console.warn('Failed to save taste model:', error);
+  }
+
+  if (!connectivityService.isOnline()) return;
+  try {
+    await setUserTasteModel(uid, state);
+  } catch (error) {
+    console.warn('Failed to sync taste model:', error);
+  }
+}
+
+/**
+ * Load the saved model for a user
+ *
+ * Prefers whichever of the local and Firebase copies was updated last, and
+ * caches a newer Firebase copy on this device. The result may have been
+ * saved with another TASTE_MODEL_VERSION; check before using its weights.
+ *
+ * @param uid - User the model belongs to
+ * @returns Promise<TasteModelState | null> - Saved model, or null if there is none
+ */
+export async function loadTasteModel(uid: string): Promise<TasteModelState | null> {
+  let local: TasteModelState | null = null;
+  try {
+    const raw = await AsyncStorage.getItem(STORAGE_PREFIX + uid);
+    local = raw ? (JSON.parse(raw) as TasteModelState) : null;
+  } catch (error) {
+    console.warn('Failed to load taste model:', error);
+  }
+
+  let remote: TasteModelState | null = null;
+  if (connectivityService.isOnline()) {
+    try {
+      remote = await getUserTasteModel(uid);
+    } catch (error) {
+      console.warn('Failed to fetch synced taste model:', error);
+    }
+  }
+
+  const candidates = [local, remote].filter((state): state is TasteModelState => !!state);
+  if (candidates.length === 0) return null;
+
+  const newest = candidates.reduce((a, b) => (b.updatedAt > a.updatedAt ? b : a));
+  if (newest === remote && (!local || local.updatedAt !== remote.updatedAt)) {
+    try {
+      await AsyncStorage.setItem(STORAGE_PREFIX + uid, JSON.stringify(remote));
+    } catch (error) {
+      console.warn('Failed to cache synced taste model:', error);
+    }
+  }
+  return newest;
+}
+
+/**
+ * Remove the model saved on this device for a user
+ *
+ * The Firebase copy is kept so the model follows the user to their next
+ * login. When online, changes saved while offline are synced first.
+ */
+export async function clearTasteModel(uid: string): Promise<void> {
+  if (connectivityService.isOnline()) {
+    try {
+      const raw = await AsyncStorage.getItem(STORAGE_PREFIX + uid);
+      const local = raw ? (JSON.parse(raw) as TasteModelState) : null;
+      const remote = local ? await getUserTasteModel(uid) : null;
+      if (local && (!remote || local.updatedAt > remote.updatedAt)) {
+        await setUserTasteModel(uid, local);
+      }
+    } catch (error) {
+      console.warn('Failed to sync taste model before clearing it:', error);
+    }
+  }
+
+  try {
+    await AsyncStorage.removeItem(STORAGE_PREFIX + uid);
+  } catch (error) {
+    console.warn('Failed to clear taste model:', error);
+  }
+}
@@ -0,0 +1,266 @@
+/**
+ * Taste Profile
+ *
+ * The content-based part of the recommender: genre and content type weights,
+ * and affinities for original language, release decade and runtime band
+ * (see titleFeatures.ts), learned from interactions and faded with a
+ * half-life. Scorers (see scorers.ts) turn them into scores.
+ *
+ * Kept free of app services (Firebase, TMDB, storage) so the same scoring
+ * runs in the app and in offline evaluation (see recommendationEvaluation.ts).
+ *
+ * @author Flicksy Team
+ * @version 1.0.0
+ */
+
+import { toCatalogGenreIds } from './genreMapping';
+import type { MovieInteraction } from './firebaseDb';
+import type { TasteModelState } from './tasteModelStore';
+import { AffinityDimension, getAffinityValues, TitleFeatures } from './titleFeatures';
+
+/**
+ * The learned part of a saved taste model
+ */
+export type TasteProfileState = Pick<
+  TasteModelState,
+  'genreWeights' | 'typePreference' | 'affinityWeights' | 'decayedAt' | 'halfLifeDays' | 'interactionCount'
+>;
+
+// How much each kind of interaction moves the genre and type weights
+export const ACTION_WEIGHTS: Record<MovieInteraction['action'], number> = {
+  liked: 1,
+  disliked: -0.5,
+  watchlisted: 0.5,
+  seen: 0,
+};
+
+// Baseline weight for genres the user picked explicitly
+export const EXPLICIT_GENRE_WEIGHT = 2;
+
+export const DEFAULT_TASTE_HALF_LIFE_DAYS = 180;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const AFFINITY_DIMENSIONS: AffinityDimension[] = ['language', 'decade', 'runtime'];
+
+/**
+ * TasteProfile class
+ *
+ * One instance per user model. Interactions must be learned in time order
+ * for the decay to be right.
+ */
+export class TasteProfile {
+  private genreWeights: Map<string, number> = new Map(); // Learned genre weights keyed by catalog genre ID
+  private typePreference: { movies: number; tvShows: number } = { movies: 0, tvShows: 0 }; // Learned content type weights
+  private affinityWeights: Record<AffinityDimension, Map<string, number>> = emptyAffinities(); // Learned weight per language, decade and runtime band
+  private explicitGenres: Set<number> = new Set(); // Genres the user picked in their preferences
+  private decayedAt: number = 0; // Time the weights were last decayed to (ms since epoch)
+  private learnedCount: number = 0; // Interactions learned from so far
+
+  constructor(private halfLife: number = DEFAULT_TASTE_HALF_LIFE_DAYS) {}
+
+  // Half-life the weights are decayed with, in days; 0 means no decay
+  get halfLifeDays(): number {
+    return this.halfLife;
+  }
+
+  get interactionCount(): number {
+    return this.learnedCount;
+  }
+
+  /**
+   * Change the half-life used from now on
+   *
+   * Weights already learned keep the old decay; relearn them for an exact
+   * result.
+   */
+  setHalfLifeDays(days: number) {
+    this.halfLife = days;
+  }
+
+  setExplicitGenres(genreIds: number[]) {
+    this.explicitGenres = new Set(genreIds);
+  }
+
+  // Forget everything learned, keeping the explicit genres and half-life
+  clear() {
+    this.genreWeights.clear();
+    this.typePreference = { movies: 0, tvShows: 0 };
+    this.affinityWeights = emptyAffinities();
+    this.decayedAt = 0;
+    this.learnedCount = 0;
+  }
+
+  /**
+   * Learn from one interaction
+   *
+   * @param action - What the user did
+   * @param features - Genres, type and, where known, language, release year and runtime of the title
+   * @param timestamp - When the interaction happened (ms since epoch)
+   */
+  learn(action: MovieInteraction['action'], features: TitleFeatures, timestamp: number) {
+    this.learnWeight(ACTION_WEIGHTS[action], features, timestamp);
+  }
+
+  /**
+   * Learn from feedback with an explicit weight, e.g. a taste quiz answer
+   *
+   * @param weight - How much to move the title's weights; 0 does nothing
+   * @param features - Genres, type and, where known, language, release year and runtime of the title
+   * @param timestamp - When the feedback was given (ms since epoch)
+   */
+  learnWeight(weight: number, features: TitleFeatures, timestamp: number) {
+    if (weight === 0) return;
+
+    this.decayTo(timestamp);
+    // TV genres like "Sci-Fi & Fantasy" count towards their movie counterparts
+    for (const genreId of toCatalogGenreIds(features.genres || [])) {
+      const genreKey = genreId.toString();
+      this.genreWeights.set(genreKey, (this.genreWeights.get(genreKey) || 0) + weight);
+    }
+    if (features.isMovie) {
+      this.typePreference.movies += weight;
+    } else {
+      this.typePreference.tvShows += weight;
+    }
+    for (const [dimension, value] of Object.entries(getAffinityValues(features)) as [AffinityDimension, string][]) {
+      const weights = this.affinityWeights[dimension];
+      weights.set(value, (weights.get(value) || 0) + weight);
+    }
+    this.learnedCount++;
+  }
+
+  /**
+   * Fade the learned weights from decayedAt to the given time
+   *
+   * Every weight is halved once per half-life, so recent interactions
+   * outweigh old ones. Times before decayedAt (e.g. an interaction recorded
+   * offline and synced late) are applied at full strength.
+   */
+  decayTo(time: number) {
+    if (time <= this.decayedAt) return;
+    if (this.decayedAt > 0 && this.halfLife > 0) {
+      const factor = Math.pow(0.5, (time - this.decayedAt) / (this.halfLife * DAY_MS));
+      for (const [genreKey, weight] of this.genreWeights) {
+        this.genreWeights.set(genreKey, weight * factor);
+      }
+      this.typePreference = {
+        movies: this.typePreference.movies * factor,
+        tvShows: this.typePreference.tvShows * factor,
+      };
+      for (const dimension of AFFINITY_DIMENSIONS) {
+        const weights = this.affinityWeights[dimension];
+        for (const [value, weight] of weights) weights.set(value, weight * factor);
+      }
+    }
+    this.decayedAt = time;
+  }
+
+  // Type preference, as the share of positive weight for the given type (0-1)
+  getTypeScore(isMovie: boolean): number {
+    const movies = Math.max(0, this.typePreference.movies);
+    const tvShows = Math.max(0, this.typePreference.tvShows);
+    return movies + tvShows > 0 ? (isMovie ? movies : tvShows) / (movies + tvShows) : 0;
+  }
+
+  /**
+   * Affinity for a language, decade or runtime band
+   *
+   * @param dimension - Which kind of feature
+   * @param value - The title's value, from getAffinityValues
+   * @returns number - The value's share of the positive weight in the dimension (0-1)
+   */
+  getAffinity(dimension: AffinityDimension, value: string): number {
+    const total = this.getAffinityTotal(dimension);
+    return total > 0 ? Math.max(0, this.affinityWeights[dimension].get(value) || 0) / total : 0;
+  }
+
+  // Positive weight learned in a dimension, i.e. how much evidence its affinities rest on
+  getAffinityTotal(dimension: AffinityDimension): number {
+    let total = 0;
+    for (const weight of this.affinityWeights[dimension].values()) total += Math.max(0, weight);
+    return total;
+  }
+
+  // Calculate genre score based on learned and explicitly selected genres
+  calculateGenreScore(genreIds: number[]): number {
+    const catalogIds = toCatalogGenreIds(genreIds);
+    if (catalogIds.length === 0) return 0;
+
+    let totalScore = 0;
+    for (const genreId of catalogIds) {
+      const weight = this.genreWeights.get(genreId.toString()) || 0;
+      totalScore += weight + (this.explicitGenres.has(genreId) ? EXPLICIT_GENRE_WEIGHT : 0);
+    }
+
+    return totalScore / catalogIds.length;
+  }
+
+  // Catalog genre IDs with the strongest positive weight, explicit picks included
+  getTopGenres(limit: number = 3): number[] {
+    const totals = new Map<number, number>();
+    for (const [genreKey, weight] of this.genreWeights) {
+      totals.set(Number(genreKey), weight);
+    }
+    for (const genreId of this.explicitGenres) {
+      totals.set(genreId, (totals.get(genreId) || 0) + EXPLICIT_GENRE_WEIGHT);
+    }
+    return Array.from(totals.entries())
+      .filter(([, weight]) => weight > 0)
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, limit)
+      .map(([genreId]) => genreId);
+  }
+
+  // Snapshot of the learned weights for saving
+  toState(): TasteProfileState {
+    return {
+      genreWeights: Object.fromEntries(this.genreWeights),
+      typePreference: { ...this.typePreference },
+      affinityWeights: this.getAffinityRecords(),
+      decayedAt: this.decayedAt,
+      halfLifeDays: this.halfLife,
+      interactionCount: this.learnedCount,
+    };
+  }
+
+  // Replace the learned weights with saved ones
+  loadState(state: TasteProfileState) {
+    this.genreWeights = new Map(Object.entries(state.genreWeights ?? {}));
+    this.typePreference = { movies: state.typePreference?.movies ?? 0, tvShows: state.typePreference?.tvShows ?? 0 };
+    this.affinityWeights = {
+      language: new Map(Object.entries(state.affinityWeights?.language ?? {})),
+      decade: new Map(Object.entries(state.affinityWeights?.decade ?? {})),
+      runtime: new Map(Object.entries(state.affinityWeights?.runtime ?? {})),
+    };
+    this.decayedAt = state.decayedAt ?? 0;
+    this.halfLife = state.halfLifeDays ?? DEFAULT_TASTE_HALF_LIFE_DAYS;
+    this.learnedCount = state.interactionCount ?? 0;
+  }
+
+  // Affinity weights as plain objects, for saving and summaries
+  private getAffinityRecords(): Record<AffinityDimension, Record<string, number>> {
+    return {
+      language: Object.fromEntries(this.affinityWeights.language),
+      decade: Object.fromEntries(this.affinityWeights.decade),
+      runtime: Object.fromEntries(this.affinityWeights.runtime),
+    };
+  }
+
+  // Current weights, for debugging and summaries
+  getSummary() {
+    return {
+      genreWeights: Object.fromEntries(this.genreWeights),
+      typePreference: { ...this.typePreference },
+      affinityWeights: this.getAffinityRecords(),
+      explicitGenres: Array.from(this.explicitGenres),
+      interactionCount: this.learnedCount,
+    };
+  }
+}
+
+// ==================== PRIVATE FUNCTIONS ====================
+
+function emptyAffinities(): Record<AffinityDimension, Map<string, number>> {
+  return { language: new Map(), decade: new Map(), runtime: new Map() };
+}
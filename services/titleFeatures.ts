@@ -0,0 +1,93 @@
+/**
+ * Title Features
+ *
+ * What the recommender knows about a title beyond its genres: original
+ * language, release decade and runtime band. The taste profile learns an
+ * affinity for each value (see tasteProfile.ts).
+ *
+ * Runtime isn't part of TMDB list responses, only of title details, so it
+ * is often unknown; unknown features are left out rather than guessed. The
+ * swipe deck looks up runtimes for cards as they're shown, so runtime
+ * affinity is learned from swipes, but it only scores candidates fetched
+ * with details (collaborative picks); deck candidates from lists are scored
+ * and explained without it.
+ *
+ * Uses no app services, so offline evaluation can use it too.
+ *
+ * @author Flicksy Team
+ * @version 1.0.0
+ */
+
+import type { MovieMetadata } from './firebaseDb';
+import type { Movie, TVShow } from './movieApi';
+
+/**
+ * Title features the taste profile learns from
+ */
+export type TitleFeatures = Pick<MovieMetadata, 'genres' | 'isMovie'> &
+  Partial<Pick<MovieMetadata, 'releaseYear' | 'originalLanguage' | 'runtime'>>;
+
+export type AffinityDimension = 'language' | 'decade' | 'runtime';
+
+export type RuntimeBand = 'short' | 'standard' | 'long';
+
+// Runtimes (minutes) under `short` or over `long` fall outside the standard band; TV shows go by episode runtime
+const RUNTIME_BANDS: Record<'movie' | 'tv', { short: number; long: number }> = {
+  movie: { short: 90, long: 140 },
+  tv: { short: 30, long: 60 },
+};
+
+/**
+ * Get the learnable features of a TMDB title
+ *
+ * Fields that are unknown are left out, so the result can be written to
+ * Firebase as is.
+ *
+ * @param item - Movie or TV show, from a list or details response
+ * @returns TitleFeatures
+ */
+export function getTitleFeatures(item: Movie | TVShow): TitleFeatures {
+  const isMovie = 'title' in item;
+  const releaseDate = isMovie ? item.release_date : item.first_air_date;
+  const releaseYear = releaseDate ? new Date(releaseDate).getFullYear() : 0;
+  const runtime = isMovie ? item.runtime : item.episode_run_time?.[0];
+  return {
+    genres: item.genre_ids || [],
+    isMovie,
+    ...(releaseYear > 0 && { releaseYear }),
+    ...(item.original_language && { originalLanguage: item.original_language }),
+    ...(runtime != null && runtime > 0 && { runtime }),
+  };
+}
+
+/**
+ * Decade a year falls in, e.g. 1994 to 1990
+ */
+export function getDecade(releaseYear: number | undefined): number | undefined {
+  return releaseYear && releaseYear > 0 ? Math.floor(releaseYear / 10) * 10 : undefined;
+}
+
+/**
+ * Runtime band for a movie's runtime or a TV show's episode runtime
+ */
+export function getRuntimeBand(runtime: number | undefined, isMovie: boolean): RuntimeBand | undefined {
+  if (!runtime || runtime <= 0) return undefined;
+  const bands = RUNTIME_BANDS[isMovie ? 'movie' : 'tv'];
+  return runtime < bands.short ? 'short' : runtime > bands.long ? 'long' : 'standard';
+}
+
+/**
+ * The value a title has in each affinity dimension, where known
+ *
+ * @param features - Title features
+ * @returns Language code, decade and runtime band as affinity keys
+ */
+export function getAffinityValues(features: TitleFeatures): Partial<Record<AffinityDimension, string>> {
+  const decade = getDecade(features.releaseYear);
+  const band = getRuntimeBand(features.runtime, features.isMovie);
+  return {
+    ...(features.originalLanguage && { language: features.originalLanguage }),
+    ...(decade !== undefined && { decade: String(decade) }),
+    ...(band && { runtime: band }),
+  };
+}